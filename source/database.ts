@@ -0,0 +1,298 @@
+import path from 'path';
+import { Database } from 'bun:sqlite';
+import type { CourseSaveFile, Requirements } from './types';
+import { SCHEMA_VERSION } from './types';
+import { upgradeCourseFile, SchemaVersionError } from './migrations';
+import { createCourseRepository } from './repository';
+import type { CourseRepository, CourseFilter, ParseAttempt, RepositoryOptions } from './repository';
+import { extractCourseRequirementsWithValues } from './export';
+import { normalizeCourseCode, getCliOption } from './utilities';
+
+/**
+ * SQLite Storage:
+ * An optional alternative to the JSON directory, selected with `--db` or `--db=path`.
+ * - courses: one row per CourseSaveFile, with the full record in `data` and
+ *   the fields worth querying copied into columns
+ * - parse_attempts: every LLM call made while parsing (prompt, raw response,
+ *   model, validation result)
+ * - requirement_edges: one row per course mentioned in a course's requirements
+ *   or listed as its equivalent, rebuilt whenever the course is saved
+ *
+ * `bun run db import` loads the JSON directory into the database and
+ * `bun run db export` writes it back out in the same layout.
+ */
+
+export const DEFAULT_DATABASE_PATH = path.join(__dirname, 'data', 'courses.db');
+
+export type EdgeKind = 'prerequisite' | 'corequisite' | 'recommended_prerequisite' | 'recommended_corequisite' | 'equivalent';
+
+export const EDGE_KINDS: EdgeKind[] = ['prerequisite', 'corequisite', 'recommended_prerequisite', 'recommended_corequisite', 'equivalent'];
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS courses (
+    course TEXT PRIMARY KEY,
+    department TEXT NOT NULL,
+    schema_version TEXT NOT NULL,
+    status TEXT NOT NULL,
+    original_prerequisite TEXT,
+    original_corequisite TEXT,
+    parsed_requirements TEXT,
+    attempts INTEGER,
+    repair_outcome TEXT,
+    last_updated TEXT NOT NULL,
+    data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS courses_status ON courses (status);
+CREATE INDEX IF NOT EXISTS courses_department ON courses (department);
+
+CREATE TABLE IF NOT EXISTS parse_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    course TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    raw_response TEXT NOT NULL,
+    valid INTEGER NOT NULL,
+    validation_error TEXT,
+    created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS parse_attempts_course ON parse_attempts (course);
+
+CREATE TABLE IF NOT EXISTS requirement_edges (
+    course TEXT NOT NULL,
+    requires TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    value REAL NOT NULL,
+    min_grade INTEGER,
+    concurrent_allowed INTEGER NOT NULL DEFAULT 0,
+    path TEXT NOT NULL DEFAULT ''
+);
+CREATE INDEX IF NOT EXISTS requirement_edges_course ON requirement_edges (course);
+CREATE INDEX IF NOT EXISTS requirement_edges_requires ON requirement_edges (requires);
+`;
+
+/**
+ * Returns the database path selected by `--db` (the default database) or `--db=path`,
+ * or undefined when the JSON directory should be used. The path must be joined with
+ * `=`, so `--db` never takes a course code or other argument after it as the path.
+ */
+export function getDatabasePath(args: string[] = process.argv): string | undefined {
+    const explicit = args.find(arg => arg.startsWith('--db='));
+    if (explicit) return explicit.slice('--db='.length) || DEFAULT_DATABASE_PATH;
+    return args.includes('--db') ? DEFAULT_DATABASE_PATH : undefined;
+}
+
+/**
+ * Opens (creating if needed) a course database
+ */
+export function openDatabase(dbPath: string = DEFAULT_DATABASE_PATH): Database {
+    const db = new Database(dbPath, { create: true });
+    db.exec('PRAGMA journal_mode = WAL;');
+    db.exec(SCHEMA);
+    addEdgeColumns(db);
+    return db;
+}
+
+// Databases created before edges carried concurrency and group paths get the new
+// columns, and their edges are rebuilt from the stored courses to fill them in
+function addEdgeColumns(db: Database) {
+    const columns = (db.query('PRAGMA table_info(requirement_edges)').all() as Array<{ name: string }>).map(column => column.name);
+    if (columns.includes('path')) return;
+
+    db.exec(`
+        ALTER TABLE requirement_edges ADD COLUMN concurrent_allowed INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE requirement_edges ADD COLUMN path TEXT NOT NULL DEFAULT '';
+    `);
+
+    const repository = createSqliteRepository(db);
+    db.transaction(() => repository.loadAll().forEach(courseData => repository.save(courseData)))();
+}
+
+/**
+ * Creates a CourseRepository backed by a SQLite database
+ */
+export function createSqliteRepository(db: Database, options: RepositoryOptions = {}): CourseRepository {
+    const outdated = new Set<string>();
+
+    const upsertCourse = db.prepare(`
+        INSERT OR REPLACE INTO courses (course, department, schema_version, status, original_prerequisite, original_corequisite,
+            parsed_requirements, attempts, repair_outcome, last_updated, data)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const deleteEdges = db.prepare('DELETE FROM requirement_edges WHERE course = ?');
+    const insertEdge = db.prepare(`
+        INSERT INTO requirement_edges (course, requires, kind, value, min_grade, concurrent_allowed, path)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAttempt = db.prepare(`
+        INSERT INTO parse_attempts (course, attempt, model, prompt, raw_response, valid, validation_error, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = db.transaction((courseData: CourseSaveFile) => {
+        const code = normalizeCourseCode(courseData.course);
+        upsertCourse.run(
+            code,
+            code.split(' ')[0] || 'UNKNOWN',
+            courseData.schemaVersion,
+            courseData.status,
+            courseData.originalPrerequisite,
+            courseData.originalCorequisite,
+            courseData.parsedRequirements ? JSON.stringify(courseData.parsedRequirements) : null,
+            courseData.attempts ?? null,
+            courseData.repairOutcome ?? null,
+            courseData.lastUpdated,
+            JSON.stringify(courseData)
+        );
+
+        deleteEdges.run(code);
+        for (const edge of extractEdges(courseData)) {
+            insertEdge.run(code, edge.requires, edge.kind, edge.value, edge.minGrade ?? null, edge.concurrentAllowed ? 1 : 0, edge.path);
+        }
+        outdated.delete(code);
+    });
+
+    const readRow = (row: { data: string }): CourseSaveFile => {
+        const courseData: CourseSaveFile = JSON.parse(row.data);
+        if (courseData.schemaVersion !== SCHEMA_VERSION) {
+            if (options.upgrade === false) {
+                throw new SchemaVersionError(`${courseData.course} uses schema version ${courseData.schemaVersion}, expected ${SCHEMA_VERSION}; run \`bun run db import\` after \`bun run migrate\``);
+            }
+            upgradeCourseFile(courseData);
+            outdated.add(normalizeCourseCode(courseData.course));
+        }
+        return courseData;
+    };
+
+    return {
+        location: db.filename,
+        get(course) {
+            const row = db.query('SELECT data FROM courses WHERE course = ?').get(normalizeCourseCode(course)) as { data: string } | null;
+            return row ? readRow(row) : undefined;
+        },
+        loadAll(filter: CourseFilter = {}) {
+            const conditions: string[] = [];
+            const params: string[] = [];
+
+            if (filter.status) {
+                const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+                conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+                params.push(...statuses);
+            }
+            if (filter.department) {
+                const departments = (Array.isArray(filter.department) ? filter.department : [filter.department]).map(d => d.toUpperCase());
+                conditions.push(`department IN (${departments.map(() => '?').join(', ')})`);
+                params.push(...departments);
+            }
+
+            const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+            const rows = db.query(`SELECT data FROM courses ${where} ORDER BY course`).all(...params) as Array<{ data: string }>;
+            return rows.map(readRow);
+        },
+        save(courseData) {
+            save(courseData);
+        },
+        recordAttempt(attempt: ParseAttempt) {
+            insertAttempt.run(
+                normalizeCourseCode(attempt.course),
+                attempt.attempt,
+                attempt.model,
+                attempt.prompt,
+                attempt.rawResponse,
+                attempt.valid ? 1 : 0,
+                attempt.validationError ?? null,
+                attempt.timestamp
+            );
+        },
+        outdated: () => Array.from(outdated)
+    };
+}
+
+/**
+ * Lists every course mentioned in a course's parsed requirements, with the link
+ * value used by the export, any minimum grade, whether it can be taken concurrently
+ * and the group path it came from, followed by its equivalents (which need no parse)
+ */
+export function extractEdges(courseData: CourseSaveFile): Array<{ requires: string; kind: EdgeKind; value: number; minGrade?: number; concurrentAllowed: boolean; path: string }> {
+    const req = courseData.parsedRequirements;
+    const roots: Array<[EdgeKind, Requirements | undefined]> = req ? [
+        ['prerequisite', req.prerequisites],
+        ['corequisite', req.corequisites],
+        ['recommended_prerequisite', req.recommendedPrerequisites],
+        ['recommended_corequisite', req.recommendedCorequisites]
+    ] : [];
+
+    const edges = roots.flatMap(([kind, root]) => root
+        ? extractCourseRequirementsWithValues(root).map(({ course, value, minGrade, concurrentAllowed, path }) => ({
+            requires: course,
+            kind,
+            value,
+            minGrade,
+            // Corequisites are taken alongside the course by definition
+            concurrentAllowed: concurrentAllowed || kind === 'corequisite' || kind === 'recommended_corequisite',
+            path
+        }))
+        : []
+    );
+    const equivalents = (courseData.equivalents || []).map(course => ({ requires: course, kind: 'equivalent' as const, value: 1, concurrentAllowed: false, path: '' }));
+
+    return [...edges, ...equivalents];
+}
+
+/**
+ * Copies every course file from the JSON directory into the database
+ */
+export function importFromDirectory(db: Database, dir?: string): number {
+    const courses = createCourseRepository({ dir }).loadAll();
+    const repository = createSqliteRepository(db);
+
+    db.transaction(() => courses.forEach(courseData => repository.save(courseData)))();
+    return courses.length;
+}
+
+/**
+ * Writes every course in the database out as JSON files
+ */
+export function exportToDirectory(db: Database, dir?: string): number {
+    const courses = createSqliteRepository(db).loadAll();
+    const repository = createCourseRepository({ dir });
+
+    courses.forEach(courseData => repository.save(courseData));
+    return courses.length;
+}
+
+async function main() {
+    const command = process.argv[2];
+    const dbPath = getDatabasePath() || DEFAULT_DATABASE_PATH;
+    const dir = getCliOption('dir');
+
+    if (command !== 'import' && command !== 'export') {
+        console.error('Usage: bun run db <import|export> [--db=path] [--dir path]');
+        process.exit(1);
+    }
+
+    const db = openDatabase(dbPath);
+    try {
+        switch (command) {
+            case 'import': {
+                const count = importFromDirectory(db, dir);
+                console.log(`✅ Imported ${count} courses into ${dbPath}`);
+                break;
+            }
+            case 'export': {
+                const count = exportToDirectory(db, dir);
+                console.log(`✅ Exported ${count} courses from ${dbPath}`);
+                break;
+            }
+        }
+    } finally {
+        db.close();
+    }
+}
+
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error:', error);
+        process.exit(1);
+    });
+}
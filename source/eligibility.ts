@@ -0,0 +1,366 @@
+import type { CourseSaveFile, Requirements } from './types';
+import { normalizeCourseCode } from './utilities';
+
+/**
+ * Eligibility Logic:
+ * - satisfied: the transcript definitely meets the requirement
+ * - unsatisfied: the transcript definitely does not meet the requirement
+ * - unknown: the answer depends on something the transcript does not record
+ *   (a missing grade, a permission, a free-text "other" requirement, ...)
+ *
+ * A course whose parse needs review is evaluated from that parse, but it is never
+ * more than unknown: the parse may not be what the calendar says.
+ *
+ * Groups combine their children by counting: a group needing N children is
+ * satisfied once N children are satisfied, unsatisfied once fewer than N
+ * children could possibly be satisfied, and unknown otherwise.
+ */
+
+export type EligibilityStatus = 'satisfied' | 'unsatisfied' | 'unknown';
+
+type Standing = Extract<Requirements, { type: 'standing' }>['standing'];
+
+export interface TranscriptCourse {
+    course: string; // e.g. "CPSC 110"
+    grade?: number; // 0-100
+    credits?: number; // defaults to the course's catalogue credits
+}
+
+export interface Transcript {
+    completed: TranscriptCourse[];
+    inProgress?: string[]; // courses currently being taken
+    standing?: Standing;
+    programs?: string[];
+}
+
+export interface RequirementEvaluation {
+    status: EligibilityStatus;
+    requirement: Requirements;
+    reason: string; // human readable explanation of the status
+    children?: RequirementEvaluation[];
+}
+
+export interface CourseEligibility {
+    course: string;
+    status: EligibilityStatus;
+    prerequisites?: RequirementEvaluation;
+    corequisites?: RequirementEvaluation;
+    missing: string[]; // top-level explanations of what is not (or not known to be) met
+}
+
+export interface EligibilityOptions {
+    credits?: Map<string, number>; // catalogue credits by course code, see buildCreditCatalog
+    equivalents?: Map<string, Set<string>>; // courses that satisfy each other's requirements, see buildEquivalenceMap
+}
+
+interface EvaluationOptions extends EligibilityOptions {
+    concurrent: boolean; // whether in-progress courses count for course requirements
+}
+
+// Credits assumed for a completed course when neither the transcript nor the catalogue says
+export const DEFAULT_COURSE_CREDITS = 3;
+
+// Lowest passing grade, applied to graded courses when a requirement names no minimum
+const PASSING_GRADE = 50;
+
+const STANDING_RANK: Record<Standing, number> = {
+    '1st': 1,
+    '2nd': 2,
+    '3rd': 3,
+    '4th': 4,
+    'graduate': 5
+};
+
+/**
+ * Whether a value is one of the standings a transcript may give
+ */
+export function isStanding(value: unknown): value is Standing {
+    return typeof value === 'string' && Object.hasOwn(STANDING_RANK, value);
+}
+
+/**
+ * Evaluates whether a student can take a course given their transcript
+ */
+export function evaluateCourseEligibility(courseData: CourseSaveFile, transcript: Transcript, options: EligibilityOptions = {}): CourseEligibility {
+    if ((courseData.status !== 'parsed' && courseData.status !== 'needs_review') || !courseData.parsedRequirements) {
+        return {
+            course: courseData.course,
+            status: 'unknown',
+            missing: [`${courseData.course} has no parsed requirements (status: ${courseData.status})`]
+        };
+    }
+
+    const req = courseData.parsedRequirements;
+    const evaluations: RequirementEvaluation[] = [];
+    const result: CourseEligibility = {
+        course: courseData.course,
+        status: 'satisfied',
+        missing: []
+    };
+
+    if (req.prerequisites) {
+        result.prerequisites = evaluateRequirements(req.prerequisites, transcript, options);
+        evaluations.push(result.prerequisites);
+    }
+
+    if (req.corequisites) {
+        // Corequisites can always be met by taking the course at the same time
+        result.corequisites = evaluateRequirements(req.corequisites, transcript, { ...options, concurrent: true });
+        evaluations.push(result.corequisites);
+    }
+
+    result.status = combineStatuses(evaluations.map(evaluation => evaluation.status), evaluations.length);
+    result.missing = evaluations.flatMap(evaluation => collectMissing(evaluation));
+
+    if (courseData.status === 'needs_review') {
+        if (result.status === 'satisfied') result.status = 'unknown';
+        result.missing.unshift(`the parse of ${courseData.course} needs review: ${(courseData.reviewNotes || []).join('; ')}`);
+    }
+
+    return result;
+}
+
+/**
+ * Recursively evaluates a Requirements node against a transcript
+ */
+export function evaluateRequirements(req: Requirements, transcript: Transcript, options: Partial<EvaluationOptions> = {}): RequirementEvaluation {
+    const opts: EvaluationOptions = { concurrent: false, ...options };
+
+    switch (req.type) {
+        case 'group': {
+            const children = req.children.map(child => evaluateRequirements(child, transcript, opts));
+            const required = requiredChildCount(req);
+            const status = combineStatuses(children.map(child => child.status), required);
+            const satisfiedCount = children.filter(child => child.status === 'satisfied').length;
+
+            let reason: string;
+            if (status === 'satisfied') {
+                reason = `meets ${describeRequirement(req)}`;
+            } else if (req.logic === 'ALL_OF') {
+                reason = `missing ${children.filter(child => child.status !== 'satisfied').map(child => describeRequirement(child.requirement)).join(', ')}`;
+            } else if (satisfiedCount === 0) {
+                reason = `missing ${describeRequirement(req)}`;
+            } else {
+                reason = `missing ${required - satisfiedCount} more of ${req.children.map(describeRequirement).join(', ')}`;
+            }
+            if (status === 'unknown') reason = `cannot confirm: ${reason}`;
+
+            return { status, requirement: req, reason, children };
+        }
+
+        case 'course': {
+            const code = normalizeCourseCode(req.course);
+            // Equivalent courses are interchangeable with the required one
+            const accepted = new Set([code, ...(opts.equivalents?.get(code) || [])]);
+            const attempts = transcript.completed.filter(entry => accepted.has(normalizeCourseCode(entry.course)));
+            const concurrentAllowed = opts.concurrent || req.canBeTakenConcurrently || req.mustBeTakenConcurrently;
+            const inProgress = (transcript.inProgress || []).find(course => accepted.has(normalizeCourseCode(course)));
+            const taken = (course: string) => {
+                const takenCode = normalizeCourseCode(course);
+                return takenCode === code ? code : `${takenCode} (equivalent to ${code})`;
+            };
+
+            // Set when no completed attempt is known to meet the requirement, so an
+            // in-progress retake is looked at before giving the verdict
+            let attempted: RequirementEvaluation | undefined;
+
+            if (attempts.length > 0) {
+                const graded = attempts.filter(entry => entry.grade !== undefined);
+                const grades = graded.map(entry => entry.grade!);
+                const bestGrade = grades.length > 0 ? Math.max(...grades) : undefined;
+
+                if (req.minGrade === undefined) {
+                    // Any pass will do, and a completion without a grade is taken as a pass
+                    const passed = attempts.filter(entry => entry.grade === undefined || entry.grade >= PASSING_GRADE);
+                    if (passed.length > 0) {
+                        const attempt = passed.find(entry => normalizeCourseCode(entry.course) === code) || passed[0]!;
+                        return { status: 'satisfied', requirement: req, reason: `completed ${taken(attempt.course)}` };
+                    }
+                    attempted = { status: 'unsatisfied', requirement: req, reason: `${code} grade ${bestGrade}% is below the passing grade of ${PASSING_GRADE}%` };
+                } else if (bestGrade !== undefined && bestGrade >= req.minGrade) {
+                    const best = graded.find(entry => entry.grade === bestGrade)!;
+                    return { status: 'satisfied', requirement: req, reason: `completed ${taken(best.course)} with ${bestGrade}%` };
+                } else if (grades.length < attempts.length) {
+                    attempted = { status: 'unknown', requirement: req, reason: `cannot confirm ${code} grade is at least ${req.minGrade}%` };
+                } else {
+                    attempted = { status: 'unsatisfied', requirement: req, reason: `${code} grade ${bestGrade}% is below the required ${req.minGrade}%` };
+                }
+            }
+
+            if (inProgress && concurrentAllowed) {
+                return { status: 'satisfied', requirement: req, reason: `taking ${taken(inProgress)} concurrently` };
+            }
+            if (attempted) {
+                return inProgress ? { ...attempted, reason: `${attempted.reason}; the retake in progress must be completed first` } : attempted;
+            }
+            if (inProgress) {
+                return { status: 'unsatisfied', requirement: req, reason: `${code} is in progress but must be completed first` };
+            }
+
+            return { status: 'unsatisfied', requirement: req, reason: `missing ${describeRequirement(req)}` };
+        }
+
+        case 'credit_count':
+        case 'course_count': {
+            const matching = transcript.completed.filter(entry => matchesCountFilter(entry, req.department, req.level));
+            const weight = (entry: TranscriptCourse) => req.type === 'credit_count' ? courseCredits(entry, opts) : 1;
+            const required = req.type === 'credit_count' ? req.credits : req.count;
+
+            let certain = 0;
+            let uncertain = 0;
+            for (const entry of matching) {
+                if (entry.grade === undefined ? req.minGrade === undefined : entry.grade >= (req.minGrade ?? PASSING_GRADE)) {
+                    certain += weight(entry);
+                } else if (entry.grade === undefined) {
+                    uncertain += weight(entry);
+                }
+            }
+
+            const unit = req.type === 'credit_count' ? 'credits' : 'courses';
+            if (certain >= required) {
+                return { status: 'satisfied', requirement: req, reason: `has ${certain} of ${required} ${unit}` };
+            }
+            if (certain + uncertain >= required) {
+                return { status: 'unknown', requirement: req, reason: `cannot confirm ${describeRequirement(req)} (grades missing)` };
+            }
+            return { status: 'unsatisfied', requirement: req, reason: `missing ${describeRequirement(req)} (has ${certain})` };
+        }
+
+        case 'standing':
+            // Transcripts from files and other callers aren't type-checked, so an unrecognised standing confirms nothing
+            if (!isStanding(transcript.standing)) {
+                return { status: 'unknown', requirement: req, reason: `cannot confirm ${describeRequirement(req)}` };
+            }
+            if (STANDING_RANK[transcript.standing] >= STANDING_RANK[req.standing]) {
+                return { status: 'satisfied', requirement: req, reason: `has ${transcript.standing}-year standing` };
+            }
+            return { status: 'unsatisfied', requirement: req, reason: `missing ${describeRequirement(req)} (has ${transcript.standing})` };
+
+        case 'program': {
+            const programs = Array.isArray(transcript.programs) ? transcript.programs.filter(program => typeof program === 'string') : [];
+            if (programs.length === 0) {
+                return { status: 'unknown', requirement: req, reason: `cannot confirm ${describeRequirement(req)}` };
+            }
+            const wanted = req.program.toLowerCase();
+            const enrolled = programs.find(program => {
+                const name = program.toLowerCase();
+                return name.includes(wanted) || wanted.includes(name);
+            });
+            if (enrolled) {
+                return { status: 'satisfied', requirement: req, reason: `enrolled in ${enrolled}` };
+            }
+            return { status: 'unsatisfied', requirement: req, reason: `missing ${describeRequirement(req)}` };
+        }
+
+        case 'permission':
+        case 'other':
+            // Free-text requirements can only be checked by a person
+            return { status: 'unknown', requirement: req, reason: `needs manual check: ${req.note}` };
+
+        default:
+            return { status: 'unknown', requirement: req, reason: 'unknown requirement type' };
+    }
+}
+
+/**
+ * Maps each course code to its catalogue credits, for courses that have them
+ */
+export function buildCreditCatalog(courses: CourseSaveFile[]): Map<string, number> {
+    const catalog = new Map<string, number>();
+    for (const courseData of courses) {
+        if (courseData.credits !== undefined) catalog.set(normalizeCourseCode(courseData.course), courseData.credits);
+    }
+    return catalog;
+}
+
+function courseCredits(entry: TranscriptCourse, options: EvaluationOptions): number {
+    return entry.credits ?? options.credits?.get(normalizeCourseCode(entry.course)) ?? DEFAULT_COURSE_CREDITS;
+}
+
+/**
+ * Collects the explanations for every unmet branch of an evaluation,
+ * descending into ALL_OF groups so each failing requirement is listed separately
+ */
+export function collectMissing(evaluation: RequirementEvaluation): string[] {
+    if (evaluation.status === 'satisfied') return [];
+
+    const req = evaluation.requirement;
+    if (req.type === 'group' && req.logic === 'ALL_OF' && evaluation.children) {
+        return evaluation.children.flatMap(child => collectMissing(child));
+    }
+
+    return [evaluation.reason];
+}
+
+/**
+ * Describes a requirement in a single line, e.g. "one of MATH 100, MATH 102"
+ */
+export function describeRequirement(req: Requirements): string {
+    switch (req.type) {
+        case 'group': {
+            const prefix = req.logic === 'ALL_OF' ? 'all of' :
+                           req.logic === 'ONE_OF' ? 'one of' : `${req.count} of`;
+            return `${prefix} ${req.children.map(describeRequirement).join(', ')}`;
+        }
+        case 'course':
+            return req.minGrade ? `${req.course} (minimum ${req.minGrade}%)` : req.course;
+        case 'credit_count':
+        case 'course_count': {
+            let str = req.type === 'credit_count' ? `${req.credits} credits` : `${req.count} courses`;
+            if (req.department) str += ` in ${Array.isArray(req.department) ? req.department.join('/') : req.department}`;
+            if (req.level) str += ` at level ${Array.isArray(req.level) ? req.level.join('/') : req.level}`;
+            if (req.minGrade) str += ` (minimum ${req.minGrade}%)`;
+            return str;
+        }
+        case 'standing':
+            return req.standing === 'graduate' ? 'graduate standing' : `${req.standing}-year standing`;
+        case 'program':
+            return `enrolment in ${req.program}`;
+        case 'permission':
+        case 'other':
+            return req.note;
+        default:
+            return 'unknown requirement';
+    }
+}
+
+/**
+ * How many children a group needs satisfied
+ */
+export function requiredChildCount(req: Extract<Requirements, { type: 'group' }>): number {
+    switch (req.logic) {
+        case 'ALL_OF':
+            return req.children.length;
+        case 'ONE_OF':
+            return 1;
+        case 'N_OF':
+            return Math.min(req.count || 1, req.children.length);
+    }
+}
+
+// Combine child statuses for a requirement that needs `required` of them satisfied
+function combineStatuses(statuses: EligibilityStatus[], required: number): EligibilityStatus {
+    const satisfied = statuses.filter(status => status === 'satisfied').length;
+    const unknown = statuses.filter(status => status === 'unknown').length;
+
+    if (satisfied >= required) return 'satisfied';
+    if (satisfied + unknown < required) return 'unsatisfied';
+    return 'unknown';
+}
+
+function matchesCountFilter(entry: TranscriptCourse, department?: string | string[], level?: string | string[]): boolean {
+    const [dept, number] = normalizeCourseCode(entry.course).split(' ');
+
+    if (department) {
+        const departments = (Array.isArray(department) ? department : [department]).map(d => d.toUpperCase());
+        if (!dept || !departments.includes(dept)) return false;
+    }
+
+    if (level) {
+        const levels = Array.isArray(level) ? level : [level];
+        const courseLevel = number && /^\d/.test(number) ? `${number[0]}00` : undefined;
+        if (!courseLevel || !levels.includes(courseLevel)) return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,89 @@
+import type { CourseSaveFile } from './types';
+import { extractCourseCodes } from './verify';
+import { normalizeCourseCode } from './utilities';
+
+/**
+ * Credit Exclusions:
+ * Extracted deterministically from a course's description, never by the LLM.
+ * - equivalents: "Credit will be granted for only one of A, B or C" (and "Equivalency: A"
+ *   on calendar pages). These courses cover the same material, so any of them
+ *   satisfies a requirement for another. Combinations such as "or both CHIN 471,
+ *   CHIN 473" are left out since neither course alone is equivalent.
+ * - exclusions: "Not for credit for students who have credit for A", "Not open to
+ *   students with credit for A" and similar. Having A rules this course out, but A
+ *   does not stand in for it.
+ */
+
+export interface CreditExclusions {
+    equivalents: string[];
+    exclusions: string[];
+}
+
+/**
+ * Extracts the equivalent and excluding courses named in a course description
+ */
+export function extractCreditExclusions(course: string, description: string): CreditExclusions {
+    const self = normalizeCourseCode(course);
+    const equivalents = new Set<string>();
+    const exclusions = new Set<string>();
+
+    for (const sentence of description.split(/(?<=\.)\s+/)) {
+        const onlyOne = sentence.match(/Credit will be granted for only one of (.*)/i);
+        const equivalency = sentence.match(/Equivalency:\s*(.*)/i);
+        const excluded = sentence.match(/Not (?:for credit for|for|open to) students (?:who have|with)(?: existing)? credit for\b(.*)/i);
+
+        if (onlyOne || equivalency) {
+            // Drop "both X, Y" combinations, which run up to the next "or"
+            const clause = (onlyOne || equivalency)![1]!.replace(/\bboth\b.*?(?=\bor\b|$)/gi, '');
+            extractCourseCodes(clause).forEach(code => equivalents.add(code));
+        } else if (excluded) {
+            extractCourseCodes(excluded[1]!).forEach(code => exclusions.add(code));
+        }
+    }
+
+    equivalents.delete(self);
+    exclusions.delete(self);
+    equivalents.forEach(code => exclusions.delete(code));
+
+    return { equivalents: Array.from(equivalents).sort(), exclusions: Array.from(exclusions).sort() };
+}
+
+/**
+ * Re-extracts a course's equivalents and exclusions from its description,
+ * returning whether anything changed
+ */
+export function applyCreditExclusions(courseData: CourseSaveFile): boolean {
+    const { equivalents, exclusions } = extractCreditExclusions(courseData.course, courseData.description || '');
+    const before = JSON.stringify([courseData.equivalents, courseData.exclusions]);
+
+    if (equivalents.length > 0) courseData.equivalents = equivalents;
+    else delete courseData.equivalents;
+    if (exclusions.length > 0) courseData.exclusions = exclusions;
+    else delete courseData.exclusions;
+
+    return JSON.stringify([courseData.equivalents, courseData.exclusions]) !== before;
+}
+
+/**
+ * Maps each course to the courses it is interchangeable with. A course and its
+ * equivalents come from one "only one of" clause, so every pair in it is linked,
+ * in both directions since often only some of the descriptions carry the clause.
+ */
+export function buildEquivalenceMap(courses: CourseSaveFile[]): Map<string, Set<string>> {
+    const map = new Map<string, Set<string>>();
+    const link = (a: string, b: string) => {
+        if (!map.has(a)) map.set(a, new Set());
+        map.get(a)!.add(b);
+    };
+
+    for (const courseData of courses) {
+        const clause = [normalizeCourseCode(courseData.course), ...(courseData.equivalents || [])];
+        for (const a of clause) {
+            for (const b of clause) {
+                if (a !== b) link(a, b);
+            }
+        }
+    }
+
+    return map;
+}
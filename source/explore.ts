@@ -0,0 +1,271 @@
+import readline from 'readline';
+import type { CourseSaveFile } from './types';
+import { openCourseRepository } from './repository';
+import { normalizeCourseCode, prettyPrintCourseParsedRequirements } from './utilities';
+import { extractEdges } from './database';
+
+/**
+ * Explorer:
+ * A terminal browser for the course data. Look a course up to see its original text
+ * next to the parsed requirements, then walk the requirements with `up` (what it
+ * needs) and `down` (what needs it). Unlike the export, these include courses whose
+ * parse needs review, marked 🔎. Lists are numbered; type a number to open one.
+ *
+ * Usage: bun run explore [COURSE] [--db | --db=path]
+ */
+
+type CourseStatus = CourseSaveFile['status'];
+
+const STATUSES: CourseStatus[] = ['parsed', 'unparsed', 'blacklisted', 'error', 'needs_review', 'removed'];
+
+const STATUS_ICONS: Record<CourseStatus, string> = {
+    parsed: '✅',
+    unparsed: '⏳',
+    blacklisted: '🚫',
+    error: '❌',
+    needs_review: '🔎',
+    removed: '🗑️'
+};
+
+// How many entries a list prints before "... and N more"
+const LIST_LIMIT = 30;
+
+// Width of the original text column when shown next to the parse
+const COLUMN_WIDTH = 60;
+
+const HELP = [
+    '  <COURSE>            show a course, e.g. CPSC 221 or cpsc221',
+    '  <number>            open an entry from the last list',
+    '  up                  courses the current course requires',
+    '  down                courses that require the current course',
+    '  back                go back to the previous course',
+    '  search <text>       courses in a department, or with a word starting with the text in their code, title or description',
+    '  status <status>     courses with a status (' + STATUSES.join(', ') + ')',
+    '  help                show this help',
+    '  quit                leave'
+];
+
+/**
+ * Creates an explorer over a set of loaded courses; `execute` runs one command line
+ * and returns false once the user quits
+ */
+export function createExplorer(courses: CourseSaveFile[]) {
+    const catalog = new Map(courses.map(courseData => [normalizeCourseCode(courseData.course), courseData]));
+    const links = buildLinks(courses);
+    const visited: string[] = [];
+    let listed: string[] = [];
+
+    const current = () => visited[visited.length - 1];
+
+    // Prints a numbered list of courses, remembering it for selection by number
+    const printList = (title: string, entries: Array<{ course: string; note?: string }>) => {
+        listed = entries.map(entry => entry.course);
+        console.log(`\n${title}: ${entries.length}`);
+        entries.slice(0, LIST_LIMIT).forEach((entry, i) => {
+            const courseData = catalog.get(entry.course);
+            const icon = courseData ? STATUS_ICONS[courseData.status] : '❔';
+            const title = courseData?.title ? ` ${courseData.title}` : '';
+            const note = entry.note ? ` (${entry.note})` : '';
+            console.log(`  ${String(i + 1).padStart(3)}. ${icon} ${entry.course}${title}${note}`);
+        });
+        if (entries.length > LIST_LIMIT) console.log(`  ... and ${entries.length - LIST_LIMIT} more`);
+    };
+
+    const show = (code: string) => {
+        const courseData = catalog.get(normalizeCourseCode(code));
+        if (!courseData) {
+            console.log(`Course not found: ${normalizeCourseCode(code)}`);
+            return;
+        }
+
+        if (current() !== courseData.course) visited.push(courseData.course);
+
+        const credits = courseData.credits !== undefined ? ` (${courseData.credits} credits)` : '';
+        console.log(`\n${STATUS_ICONS[courseData.status]} ${courseData.course}${credits} ${courseData.title || ''}`);
+        console.log(`   Status: ${courseData.status}, last updated ${courseData.lastUpdated}`);
+        if (courseData.blacklistReason) console.log(`   Blacklisted: ${courseData.blacklistReason}`);
+        if (courseData.errorMessage) console.log(`   Error: ${courseData.errorMessage}`);
+        courseData.reviewNotes?.forEach(note => console.log(`   Review: ${note}`));
+
+        const original = [
+            courseData.originalPrerequisite ? `Prerequisite: ${courseData.originalPrerequisite}` : '',
+            courseData.originalCorequisite ? `Corequisite: ${courseData.originalCorequisite}` : ''
+        ].filter(text => text.length > 0).join(' ');
+        const parsed = courseData.parsedRequirements ? prettyPrintCourseParsedRequirements(courseData.parsedRequirements) : '';
+
+        console.log('');
+        printColumns(wrap(original || '(no requirement text)', COLUMN_WIDTH), (parsed || '(not parsed)').split('\n'));
+
+        const equivalents = courseData.equivalents;
+        const exclusions = courseData.exclusions;
+        if (equivalents) console.log(`\n   Equivalent to: ${equivalents.join(', ')}`);
+        if (exclusions) console.log(`   No credit with: ${exclusions.join(', ')}`);
+    };
+
+    const requireCurrent = (): string | undefined => {
+        const code = current();
+        if (!code) console.log('Open a course first, e.g. CPSC 221');
+        return code;
+    };
+
+    const commands: Record<string, (args: string) => void> = {
+        up: () => {
+            const code = requireCurrent();
+            if (!code) return;
+            const required = links.filter(link => link.target === code);
+            const review = catalog.get(code)?.status === 'needs_review' ? ' (parse needs review)' : '';
+            printList(`⬆️  ${code} requires${review}`, required.map(link => ({ course: link.source, note: linkNote(link.kind, link.minGrade) })));
+        },
+        down: () => {
+            const code = requireCurrent();
+            if (!code) return;
+            const requiredBy = links.filter(link => link.source === code);
+            printList(`⬇️  Required by`, requiredBy.map(link => ({ course: link.target, note: linkNote(link.kind, link.minGrade) })));
+        },
+        back: () => {
+            if (visited.length < 2) {
+                console.log('Nothing to go back to');
+                return;
+            }
+            visited.pop();
+            show(visited.pop()!);
+        },
+        search: args => {
+            const text = args.trim();
+            if (!text) {
+                console.log('Usage: search <text>');
+                return;
+            }
+
+            const dept = text.toUpperCase();
+            const inDept = courses.filter(courseData => courseData.course.split(' ')[0] === dept);
+            if (inDept.length > 0) {
+                printList(`🔍 ${dept} courses`, inDept.map(courseData => ({ course: courseData.course })));
+                return;
+            }
+
+            // Match at word starts, so "graph" finds "graphs" but not "ethnography"
+            const keyword = new RegExp(`\\b${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i');
+            const matches = courses.filter(courseData =>
+                [courseData.course, courseData.title, courseData.description].some(field => field && keyword.test(field))
+            );
+            printList(`🔍 Courses matching "${text}"`, matches.map(courseData => ({ course: courseData.course })));
+        },
+        status: args => {
+            const status = args.trim().toLowerCase().replace('-', '_') as CourseStatus;
+            if (!STATUSES.includes(status)) {
+                console.log(`Unknown status. Choose one of: ${STATUSES.join(', ')}`);
+                return;
+            }
+
+            const matches = courses.filter(courseData => courseData.status === status);
+            printList(`${STATUS_ICONS[status]} ${status} courses`, matches.map(courseData => ({
+                course: courseData.course,
+                note: truncate(courseData.blacklistReason || courseData.errorMessage || courseData.reviewNotes?.[0] || '', 80) || undefined
+            })));
+        },
+        help: () => {
+            console.log('Commands:');
+            HELP.forEach(line => console.log(line));
+        }
+    };
+
+    const execute = (line: string): boolean => {
+        const input = line.trim();
+        if (!input) return true;
+
+        const [command = '', ...rest] = input.split(/\s+/);
+        const name = command.toLowerCase();
+
+        if (name === 'quit' || name === 'exit') return false;
+
+        if (commands[name]) {
+            commands[name]!(rest.join(' '));
+        } else if (/^\d+$/.test(input)) {
+            const selected = listed[Number(input) - 1];
+            if (selected) show(selected);
+            else console.log(`No entry ${input} in the last list`);
+        } else {
+            show(name === 'show' ? rest.join(' ') : input);
+        }
+        return true;
+    };
+
+    return { execute, show };
+}
+
+// Prerequisite and corequisite links from every course's own parse, needs_review ones included
+function buildLinks(courses: CourseSaveFile[]): Array<{ source: string; target: string; kind: string; minGrade?: number }> {
+    const links = new Map<string, { source: string; target: string; kind: string; minGrade?: number }>();
+    for (const courseData of courses) {
+        const target = normalizeCourseCode(courseData.course);
+        for (const edge of extractEdges(courseData)) {
+            if (edge.kind !== 'prerequisite' && edge.kind !== 'corequisite') continue;
+            const source = normalizeCourseCode(edge.requires);
+            // A course named in several places is listed once, with its first kind and grade
+            const key = `${source}->${target}`;
+            if (!links.has(key)) links.set(key, { source, target, kind: edge.kind, minGrade: edge.minGrade });
+        }
+    }
+    return Array.from(links.values());
+}
+
+function linkNote(kind: string, minGrade?: number): string {
+    return minGrade !== undefined ? `${kind}, minimum ${minGrade}%` : kind;
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.substring(0, length)}...` : text;
+}
+
+// Splits text into lines of at most `width` characters at word boundaries
+function wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        if (line && line.length + word.length + 1 > width) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+function printColumns(left: string[], right: string[]) {
+    console.log(`   ${'ORIGINAL'.padEnd(COLUMN_WIDTH)} │ PARSED`);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        console.log(`   ${(left[i] || '').padEnd(COLUMN_WIDTH)} │ ${right[i] || ''}`);
+    }
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const start = args.filter(arg => !arg.startsWith('--')).join(' ');
+
+    const courses = openCourseRepository().loadAll();
+    const explorer = createExplorer(courses);
+
+    console.log(`📚 Loaded ${courses.length} courses. Type a course code, or "help" for commands.`);
+    if (start) explorer.show(start);
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: '\nexplore> ' });
+    rl.prompt();
+    rl.on('line', line => {
+        if (!explorer.execute(line)) {
+            rl.close();
+            return;
+        }
+        rl.prompt();
+    });
+    rl.on('close', () => process.exit(0));
+}
+
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error:', error);
+        process.exit(1);
+    });
+}
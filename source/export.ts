@@ -1,17 +1,28 @@
 import fs from 'fs';
 import path from 'path';
+import type { Database } from 'bun:sqlite';
 import type { CourseSaveFile, Requirements } from './types';
+import { SCHEMA_VERSION } from './types';
+import { createCourseRepository, openCourseRepository } from './repository';
+import { getDatabasePath, openDatabase, extractEdges, EDGE_KINDS } from './database';
+import type { EdgeKind } from './database';
+import { GRAPH_FORMATS, getGraphFormat } from './formats';
+import type { GraphFormat } from './formats';
+import { generateHypergraph } from './hypergraph';
+import { analyzeCourseGraph } from './graph';
+import type { CourseCycle } from './graph';
+import { getCliOption } from './utilities';
 
 /**
  * Link Value Logic:
  * - ALL_OF: Each child gets the full value (default: 1)
  * - ONE_OF: Value is split among children (value / number_of_children)
- * - TWO_OF: Value is doubled then split among children ((value * 2) / number_of_children)
+ * - N_OF: Value is multiplied by count then split among children ((value * count) / number_of_children)
  * 
  * This reflects the "strength" of each requirement:
  * - ALL_OF requirements are mandatory, so each has full weight
  * - ONE_OF requirements are alternatives, so weight is distributed
- * - TWO_OF requirements need two choices, so they're weighted higher but still distributed
+ * - N_OF requirements need several choices, so they're weighted higher but still distributed
  */
 
 interface Node {
@@ -20,23 +31,34 @@ interface Node {
     dept: string;
     size: number;
     depth: number; // Number of prerequisite levels needed to reach this course
+    credits?: number; // Catalogue credits, blank when unknown
 }
 
 interface Link {
     source: string;
     target: string;
     value: number;
+    kind: EdgeKind; // equivalent links are undirected, source sorts first
+    minGrade?: number;
+    concurrentAllowed: boolean; // may be taken at the same time as the target (always true for corequisites)
+    path: string; // groups leading to the course within the requirement, e.g. "ALL_OF[1]/ONE_OF[0]"; empty at the top level
 }
 
+// Recommended requirements are left out unless asked for with --include
+const DEFAULT_LINK_KINDS: EdgeKind[] = ['prerequisite', 'corequisite', 'equivalent'];
+
 // Extract course requirements from a Requirements node recursively with link values
-function extractCourseRequirementsWithValues(node: Requirements, baseValue: number = 1): Array<{ course: string, value: number }> {
-    const courses: Array<{ course: string, value: number }> = [];
+function extractCourseRequirementsWithValues(node: Requirements, baseValue: number = 1, path: string = ''): Array<{ course: string, value: number, minGrade?: number, concurrentAllowed: boolean, path: string }> {
+    const courses: Array<{ course: string, value: number, minGrade?: number, concurrentAllowed: boolean, path: string }> = [];
 
     switch (node.type) {
         case 'course':
             courses.push({
                 course: node.course,
-                value: baseValue
+                value: baseValue,
+                minGrade: node.minGrade,
+                concurrentAllowed: !!(node.canBeTakenConcurrently || node.mustBeTakenConcurrently),
+                path: path
             });
             break;
 
@@ -46,16 +68,18 @@ function extractCourseRequirementsWithValues(node: Requirements, baseValue: numb
             if (node.logic === 'ONE_OF') {
                 // Split the value by the number of children in ONE_OF
                 childValue = baseValue / node.children.length;
-            } else if (node.logic === 'TWO_OF') {
-                // For TWO_OF, double the value but split by children
-                childValue = (baseValue * 2) / node.children.length;
+            } else if (node.logic === 'N_OF') {
+                // For N_OF, multiply the value by the count but split by children
+                childValue = (baseValue * (node.count || 1)) / node.children.length;
             }
             // For ALL_OF, keep the same value
 
             // Recursively extract from all children with the calculated value
-            for (const child of node.children) {
-                courses.push(...extractCourseRequirementsWithValues(child, childValue));
-            }
+            const label = node.logic === 'N_OF' ? `${node.count}_OF` : node.logic;
+            node.children.forEach((child, i) => {
+                const childPath = path ? `${path}/${label}[${i}]` : `${label}[${i}]`;
+                courses.push(...extractCourseRequirementsWithValues(child, childValue, childPath));
+            });
             break;
 
         // Ignore other types (credit_count, course_count, standing, etc.)
@@ -66,42 +90,8 @@ function extractCourseRequirementsWithValues(node: Requirements, baseValue: numb
     return courses;
 }
 
-// Calculate the prerequisite depth for a course
-function calculatePrerequisiteDepth(node: Requirements, courseDepths: Map<string, number>): number {
-    switch (node.type) {
-        case 'course':
-            // Return the depth of this course (0 if no prerequisites, or calculated depth + 1)
-            return (courseDepths.get(node.course) || 0) + 1;
-
-        case 'group':
-            if (node.children.length === 0) return 0;
-
-            const childDepths = node.children.map(child =>
-                calculatePrerequisiteDepth(child, courseDepths)
-            ).filter(depth => depth > 0); // Filter out courses with no prerequisites
-
-            if (childDepths.length === 0) return 0;
-
-            if (node.logic === 'ONE_OF') {
-                // For ONE_OF, take the minimum depth (easiest path)
-                return Math.min(...childDepths);
-            } else if (node.logic === 'TWO_OF') {
-                // For TWO_OF, take the second minimum depth (need two courses)
-                const sorted = childDepths.sort((a, b) => a - b);
-                return sorted.length >= 2 ? sorted[1]! : sorted[0]!;
-            } else {
-                // For ALL_OF, take the maximum depth (need all courses)
-                return Math.max(...childDepths);
-            }
-
-        // Ignore other types (credit_count, course_count, standing, etc.)
-        default:
-            return 0;
-    }
-}
-
-// Generate nodes and links from parsed requirements
-function generateNodesAndLinks(courses: CourseSaveFile[]): { nodes: Node[], links: Link[] } {
+// Generate nodes and links from parsed requirements, keeping one link per kind for each pair of courses
+function generateNodesAndLinks(courses: CourseSaveFile[], kinds: EdgeKind[] = DEFAULT_LINK_KINDS): { nodes: Node[], links: Link[], cycles: CourseCycle[] } {
     const nodesMap = new Map<string, Node>();
     const linkMap = new Map<string, Link>(); // Use map to consolidate duplicate links
 
@@ -111,150 +101,70 @@ function generateNodesAndLinks(courses: CourseSaveFile[]): { nodes: Node[], link
     );
 
     console.log(`Processing ${parsedCourses.length} parsed courses out of ${courses.length} total courses`);
-
-    // First pass: Calculate prerequisite depths
-    const courseDepths = new Map<string, number>();
-
-    // Initialize all courses with depth 0 (no prerequisites known yet)
-    parsedCourses.forEach(course => {
-        const courseId = course.course;
-        courseDepths.set(courseId, 0);
-    });
-
-    // Calculate depths based on prerequisites (multiple passes to handle dependencies)
-    let maxIterations = 10; // Prevent infinite loops
-    let changed = true;
-    
-    while (changed && maxIterations > 0) {
-        changed = false;
-        maxIterations--;
-
-        parsedCourses.forEach(course => {
-            const courseId = course.course;
-            let maxDepth = 0;
-            const req = course.parsedRequirements!;
-
-            if (req.prerequisites) {
-                const prereqDepth = calculatePrerequisiteDepth(req.prerequisites, courseDepths);
-                maxDepth = Math.max(maxDepth, prereqDepth);
-            }
-
-            if (req.corequisites) {
-                const coreqDepth = calculatePrerequisiteDepth(req.corequisites, courseDepths);
-                maxDepth = Math.max(maxDepth, coreqDepth);
-            }
-
-            const currentDepth = courseDepths.get(courseId) || 0;
-            if (maxDepth > currentDepth) {
-                courseDepths.set(courseId, maxDepth);
-                changed = true;
-            }
+    reportNeedsReview(courses.filter(course => course.status === 'needs_review').length);
+
+    // First pass: Calculate prerequisite depths, one strongly connected component at a time
+    const { depths: courseDepths, cycles } = analyzeCourseGraph(parsedCourses);
+
+    // Titles and credits come from every course file, including unparsed ones
+    const catalog = new Map(courses.map(course => [course.course, course]));
+
+    const addNode = (id: string, dept: string) => {
+        if (nodesMap.has(id)) return;
+        nodesMap.set(id, {
+            id: id,
+            title: catalog.get(id)?.title || id,
+            dept: dept,
+            size: 0, // Will be calculated as incoming links
+            depth: courseDepths.get(id) || 0,
+            credits: catalog.get(id)?.credits
         });
-    }
+    };
 
-    // Second pass: Generate nodes and links
-    for (const course of parsedCourses) {
+    // Second pass: Generate nodes and links. Equivalents come from the description rather
+    // than the parse, so every course contributes those
+    const parsedIds = new Set(parsedCourses.map(course => course.course));
+    for (const course of courses) {
         const targetId = course.course;
-        const dept = course.parsedRequirements!.department;
-        const depth = courseDepths.get(targetId) || 0;
-
-        // Add the target course as a node
-        if (!nodesMap.has(targetId)) {
-            nodesMap.set(targetId, {
-                id: targetId,
-                title: targetId, // We'll update the title later
-                dept: dept,
-                size: 0, // Will be calculated as incoming links
-                depth: depth
-            });
-        }
-
-        const req = course.parsedRequirements!;
-
-        // Extract prerequisite courses with values
-        if (req.prerequisites) {
-            const prerequisiteCourses = extractCourseRequirementsWithValues(req.prerequisites);
-
-            for (const { course: prereqId, value } of prerequisiteCourses) {
-                // Extract department from course ID
-                const prereqDept = prereqId.split(' ')[0] || 'UNKNOWN';
-
-                // Add prerequisite as a node
-                if (!nodesMap.has(prereqId)) {
-                    const prereqDepth = courseDepths.get(prereqId) || 0;
-                    nodesMap.set(prereqId, {
-                        id: prereqId,
-                        title: prereqId,
-                        dept: prereqDept,
-                        size: 0,
-                        depth: prereqDepth
-                    });
-                }
-
-                // Create unique key for this link
-                const linkKey = `${prereqId}->${targetId}`;
-                const roundedValue = Math.round(value * 100) / 100;
-
-                // Keep only the link with the highest value if duplicate exists
-                if (!linkMap.has(linkKey) || linkMap.get(linkKey)!.value < roundedValue) {
-                    linkMap.set(linkKey, {
-                        source: prereqId,
-                        target: targetId,
-                        value: roundedValue
-                    });
-                }
-            }
-        }
-
-        // Extract corequisite courses with values
-        if (req.corequisites) {
-            const corequisiteCourses = extractCourseRequirementsWithValues(req.corequisites);
-
-            for (const { course: coreqId, value } of corequisiteCourses) {
-                // Extract department from course ID
-                const coreqDept = coreqId.split(' ')[0] || 'UNKNOWN';
-
-                // Add corequisite as a node
-                if (!nodesMap.has(coreqId)) {
-                    const coreqDepth = courseDepths.get(coreqId) || 0;
-                    nodesMap.set(coreqId, {
-                        id: coreqId,
-                        title: coreqId,
-                        dept: coreqDept,
-                        size: 0,
-                        depth: coreqDepth
-                    });
-                }
-
-                // Create unique key for this link (bidirectional for corequisites)
-                const linkKey1 = `${coreqId}->${targetId}`;
-                const linkKey2 = `${targetId}->${coreqId}`;
-                const roundedValue = Math.round(value * 100) / 100;
-
-                // Add both directions for corequisites
-                if (!linkMap.has(linkKey1) || linkMap.get(linkKey1)!.value < roundedValue) {
-                    linkMap.set(linkKey1, {
-                        source: coreqId,
-                        target: targetId,
-                        value: roundedValue
-                    });
-                }
-                if (!linkMap.has(linkKey2) || linkMap.get(linkKey2)!.value < roundedValue) {
-                    linkMap.set(linkKey2, {
-                        source: targetId,
-                        target: coreqId,
-                        value: roundedValue
-                    });
-                }
+        const parsed = parsedIds.has(targetId);
+        if (parsed) addNode(targetId, course.parsedRequirements!.department);
+
+        for (const edge of extractEdges(course)) {
+            if (!kinds.includes(edge.kind) || (!parsed && edge.kind !== 'equivalent')) continue;
+            addNode(targetId, targetId.split(' ')[0] || 'UNKNOWN');
+
+            // Extract department from course ID
+            addNode(edge.requires, edge.requires.split(' ')[0] || 'UNKNOWN');
+
+            // Equivalent courses get one undirected link per pair
+            const [source, target] = edge.kind === 'equivalent'
+                ? [targetId, edge.requires].sort() as [string, string]
+                : [edge.requires, targetId];
+
+            // Create unique key for this link
+            const linkKey = `${edge.kind}:${source}->${target}`;
+            const roundedValue = Math.round(edge.value * 100) / 100;
+
+            // Keep only the link with the highest value if duplicate exists
+            if (!linkMap.has(linkKey) || linkMap.get(linkKey)!.value < roundedValue) {
+                linkMap.set(linkKey, {
+                    source: source,
+                    target: target,
+                    value: roundedValue,
+                    kind: edge.kind,
+                    minGrade: edge.minGrade,
+                    concurrentAllowed: edge.concurrentAllowed,
+                    path: edge.path
+                });
             }
         }
     }
 
-    // Calculate size (number of incoming links) for each node
+    // Calculate size (number of incoming requirement links) for each node
     const linkArray = Array.from(linkMap.values());
     const incomingCounts = new Map<string, number>();
     
-    linkArray.forEach(link => {
+    linkArray.filter(link => link.kind !== 'equivalent').forEach(link => {
         incomingCounts.set(link.target, (incomingCounts.get(link.target) || 0) + 1);
     });
 
@@ -279,10 +189,93 @@ function generateNodesAndLinks(courses: CourseSaveFile[]): { nodes: Node[], link
 
     return {
         nodes: prunedNodes,
-        links: linkArray
+        links: linkArray,
+        cycles
     };
 }
 
+// Links from parsed courses (and equivalents from any course) in a course database, matching generateNodesAndLinks: one link
+// per kind for each pair (equivalents undirected, source sorts first) keeping the highest value.
+// Kinds are checked against EDGE_KINDS before they get here.
+function databaseLinksQuery(kinds: EdgeKind[]): string {
+    return `
+        SELECT source, target, MAX(value) AS value, kind, min_grade, concurrent_allowed, path FROM (
+            SELECT
+                CASE WHEN e.kind = 'equivalent' THEN MIN(e.course, e.requires) ELSE e.requires END AS source,
+                CASE WHEN e.kind = 'equivalent' THEN MAX(e.course, e.requires) ELSE e.course END AS target,
+                ROUND(e.value, 2) AS value, e.kind, e.min_grade, e.concurrent_allowed, e.path
+            FROM requirement_edges e JOIN courses c ON c.course = e.course
+            WHERE (c.status = 'parsed' OR e.kind = 'equivalent') AND e.kind IN (${kinds.map(kind => `'${kind}'`).join(', ')})
+        )
+        GROUP BY source, target, kind
+    `;
+}
+
+// Generate nodes and links with SQL over the requirement_edges table of a course database.
+// Depths and cycles still need the requirement trees, so they're calculated the same way as above.
+function generateNodesAndLinksFromDatabase(db: Database, kinds: EdgeKind[] = DEFAULT_LINK_KINDS): { nodes: Node[], links: Link[], cycles: CourseCycle[] } {
+    const parsedCourses = (db.query(`SELECT data FROM courses WHERE status = 'parsed' AND parsed_requirements IS NOT NULL`).all() as Array<{ data: string }>)
+        .map(row => JSON.parse(row.data) as CourseSaveFile);
+
+    console.log(`Processing ${parsedCourses.length} parsed courses from the database`);
+    reportNeedsReview((db.query(`SELECT COUNT(*) AS count FROM courses WHERE status = 'needs_review'`).get() as { count: number }).count);
+
+    const { depths: courseDepths, cycles } = analyzeCourseGraph(parsedCourses);
+
+    const linkRows = db.query(`${databaseLinksQuery(kinds)} ORDER BY target, source, kind`).all() as Array<{
+        source: string; target: string; value: number; kind: EdgeKind; min_grade: number | null; concurrent_allowed: number; path: string;
+    }>;
+    const links: Link[] = linkRows.map(row => ({
+        source: row.source,
+        target: row.target,
+        value: row.value,
+        kind: row.kind,
+        minGrade: row.min_grade ?? undefined,
+        concurrentAllowed: row.concurrent_allowed === 1,
+        path: row.path
+    }));
+
+    // Every course at either end of a link is a node, sized by its incoming links
+    const nodeRows = db.query(`
+        WITH links AS (${databaseLinksQuery(kinds)})
+        SELECT ids.id, COUNT(incoming.target) AS size,
+            json_extract(c.data, '$.title') AS title, json_extract(c.data, '$.credits') AS credits
+        FROM (SELECT source AS id FROM links UNION SELECT target FROM links) ids
+        LEFT JOIN links incoming ON incoming.target = ids.id AND incoming.kind != 'equivalent'
+        LEFT JOIN courses c ON c.course = ids.id
+        GROUP BY ids.id
+        ORDER BY ids.id
+    `).all() as Array<{ id: string; size: number; title: string | null; credits: number | null }>;
+
+    const nodes: Node[] = nodeRows.map(row => ({
+        id: row.id,
+        title: row.title || row.id,
+        dept: row.id.split(' ')[0] || 'UNKNOWN',
+        size: row.size,
+        depth: courseDepths.get(row.id) || 0,
+        credits: row.credits ?? undefined
+    }));
+
+    return { nodes, links, cycles };
+}
+
+// Parses flagged by verify.ts are left out of every export on purpose, so the graph only
+// has checked edges; say how many so the gap isn't silent
+function reportNeedsReview(count: number) {
+    if (count > 0) console.log(`🔎 Leaving out ${count} courses whose parse needs review (see \`bun run verify\`)`);
+}
+
+// Parse a comma separated list of link kinds, exiting on unknown ones
+function parseKinds(list: string | undefined): EdgeKind[] {
+    const kinds = (list || '').split(',').map(kind => kind.trim()).filter(kind => kind.length > 0);
+    const unknown = kinds.filter(kind => !EDGE_KINDS.includes(kind as EdgeKind));
+    if (unknown.length > 0) {
+        console.error(`❌ Unknown link kind: ${unknown.join(', ')}. Available kinds: ${EDGE_KINDS.join(', ')}`);
+        process.exit(1);
+    }
+    return kinds as EdgeKind[];
+}
+
 // Convert array of objects to CSV string
 function arrayToCSV<T>(data: T[]): string {
     if (data.length === 0) return '';
@@ -310,54 +303,143 @@ function arrayToCSV<T>(data: T[]): string {
     return csvRows.join('\n');
 }
 
+// Writes the AND/OR gate graph instead of course links (--hypergraph)
+function exportHypergraph(kinds: EdgeKind[], graphFormat: GraphFormat | undefined) {
+    const repository = openCourseRepository({ upgrade: !process.argv.includes('--no-upgrade') });
+    const courses = repository.loadAll();
+    console.log(`Loaded ${courses.length} courses`);
+
+    console.log('Generating hypergraph...');
+    reportNeedsReview(courses.filter(course => course.status === 'needs_review').length);
+    const { nodes, links } = generateHypergraph(courses, kinds);
+    const gates = nodes.filter(node => node.type === 'gate').length;
+    const conditions = nodes.filter(node => node.type === 'condition').length;
+    console.log(`Generated ${nodes.length} nodes (${gates} gates, ${conditions} conditions) and ${links.length} links`);
+
+    const dataDir = path.join(__dirname, 'data');
+    fs.mkdirSync(dataDir, { recursive: true });
+
+    if (graphFormat) {
+        const outputPath = path.join(dataDir, graphFormat.file.replace('graph', 'hypergraph'));
+        fs.writeFileSync(outputPath, graphFormat.serialize({ nodes, links }), 'utf-8');
+        console.log(`✅ ${graphFormat.name} hypergraph saved to: ${outputPath}`);
+    } else {
+        const nodesPath = path.join(dataDir, 'hypergraph-nodes.csv');
+        const linksPath = path.join(dataDir, 'hypergraph-links.csv');
+        fs.writeFileSync(nodesPath, arrayToCSV(nodes), 'utf-8');
+        fs.writeFileSync(linksPath, arrayToCSV(links), 'utf-8');
+        console.log(`✅ Nodes saved to: ${nodesPath}`);
+        console.log(`✅ Links saved to: ${linksPath}`);
+    }
+}
+
+// Every cycle is listed; corequisite loops are warnings since courses taken together can name each other
+function printCycles(cycles: CourseCycle[]) {
+    if (cycles.length === 0) return;
+
+    const prerequisiteCycles = cycles.filter(cycle => !cycle.corequisiteOnly);
+    const corequisiteLoops = cycles.filter(cycle => cycle.corequisiteOnly);
+
+    if (prerequisiteCycles.length > 0) {
+        console.log(`\n🔁 ${prerequisiteCycles.length} prerequisite cycles (courses in a cycle share one depth):`);
+        prerequisiteCycles.forEach(cycle => console.log(cycle.courses.length === 1
+            ? `   ${cycle.courses[0]} requires itself`
+            : `   ${cycle.courses.join(' <-> ')}`));
+    }
+
+    if (corequisiteLoops.length > 0) {
+        console.log(`\n⚠️  ${corequisiteLoops.length} cycles only exist through corequisites:`);
+        corequisiteLoops.forEach(cycle => console.log(`   ${cycle.courses.join(' <-> ')}`));
+    }
+}
+
 async function main() {
     try {
-        const coursesDir = path.join(__dirname, 'data', 'courses');
         const NODES_OUTPUT_PATH = path.join(__dirname, 'data', 'nodes.csv');
         const LINKS_OUTPUT_PATH = path.join(__dirname, 'data', 'links.csv');
 
+        // csv (the default) writes nodes.csv and links.csv; other formats write one graph file
+        const formatName = getCliOption('format') || 'csv';
+        const graphFormat = getGraphFormat(formatName);
+        if (formatName !== 'csv' && !graphFormat) {
+            console.error(`❌ Unknown format: ${formatName}. Available formats: csv, ${GRAPH_FORMATS.map(format => format.name).join(', ')}`);
+            process.exit(1);
+        }
+
+        // Link kinds: the defaults, plus --include and minus --exclude (comma separated)
+        const include = parseKinds(getCliOption('include'));
+        const exclude = parseKinds(getCliOption('exclude'));
+        const kinds = EDGE_KINDS.filter(kind => (DEFAULT_LINK_KINDS.includes(kind) || include.includes(kind)) && !exclude.includes(kind));
+
         console.log('Loading course data...');
 
-        if (!fs.existsSync(coursesDir)) {
-            console.error(`Courses directory not found: ${coursesDir}`);
-            process.exit(1);
+        if (process.argv.includes('--hypergraph')) {
+            exportHypergraph(kinds, graphFormat);
+            return;
         }
 
-        // Load all course files
-        const files = fs.readdirSync(coursesDir).filter(file => file.endsWith('.json'));
-        const courses: CourseSaveFile[] = [];
+        let nodes: Node[];
+        let links: Link[];
+        let cycles: CourseCycle[];
+        const dbPath = getDatabasePath();
+
+        if (dbPath) {
+            // Aggregate with SQL over the course database
+            const db = openDatabase(dbPath);
+            const outdated = db.query('SELECT COUNT(*) AS count FROM courses WHERE schema_version != ?').get(SCHEMA_VERSION) as { count: number };
+            if (outdated.count > 0) {
+                console.error(`❌ ${outdated.count} courses in ${dbPath} use an older schema version; run \`bun run migrate\` and \`bun run db import\``);
+                process.exit(1);
+            }
 
-        for (const file of files) {
-            const filePath = path.join(coursesDir, file);
+            console.log('Generating nodes and links...');
+            ({ nodes, links, cycles } = generateNodesAndLinksFromDatabase(db, kinds));
+            db.close();
+        } else {
+            // Outdated files are upgraded in memory unless --no-upgrade is passed
+            const repository = createCourseRepository({ upgrade: !process.argv.includes('--no-upgrade') });
+            let courses: CourseSaveFile[];
             try {
-                const courseData: CourseSaveFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-                courses.push(courseData);
+                courses = repository.loadAll();
             } catch (error) {
-                console.error(`Error reading ${file}:`, error);
+                console.error(`❌ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
             }
-        }
 
-        console.log(`Loaded ${courses.length} courses`);
-
-        // Generate nodes and links
-        console.log('Generating nodes and links...');
-        const { nodes, links } = generateNodesAndLinks(courses);
+            console.log(`Loaded ${courses.length} courses`);
+            const outdated = repository.outdated().length;
+            if (outdated > 0) {
+                console.log(`⚠️  ${outdated} files use an older schema version and were upgraded in memory; run \`bun run migrate\` to save them`);
+            }
 
-        console.log(`Generated ${nodes.length} nodes and ${links.length} links`);
+            // Generate nodes and links
+            console.log('Generating nodes and links...');
+            ({ nodes, links, cycles } = generateNodesAndLinks(courses, kinds));
+        }
 
-        // Convert to CSV
-        const nodesCSV = arrayToCSV(nodes);
-        const linksCSV = arrayToCSV(links);
+        const kindCounts = kinds.map(kind => `${links.filter(link => link.kind === kind).length} ${kind}`);
+        console.log(`Generated ${nodes.length} nodes and ${links.length} links (${kindCounts.join(', ')})`);
+        printCycles(cycles);
 
         // Ensure output directory exists
         fs.mkdirSync(path.dirname(NODES_OUTPUT_PATH), { recursive: true });
 
-        // Write CSV files
-        fs.writeFileSync(NODES_OUTPUT_PATH, nodesCSV, 'utf-8');
-        fs.writeFileSync(LINKS_OUTPUT_PATH, linksCSV, 'utf-8');
-
-        console.log(`✅ Nodes saved to: ${NODES_OUTPUT_PATH}`);
-        console.log(`✅ Links saved to: ${LINKS_OUTPUT_PATH}`);
+        if (graphFormat) {
+            const outputPath = path.join(__dirname, 'data', graphFormat.file);
+            fs.writeFileSync(outputPath, graphFormat.serialize({ nodes, links }), 'utf-8');
+            console.log(`✅ ${graphFormat.name} graph saved to: ${outputPath}`);
+        } else {
+            // Convert to CSV
+            const nodesCSV = arrayToCSV(nodes);
+            const linksCSV = arrayToCSV(links);
+
+            // Write CSV files
+            fs.writeFileSync(NODES_OUTPUT_PATH, nodesCSV, 'utf-8');
+            fs.writeFileSync(LINKS_OUTPUT_PATH, linksCSV, 'utf-8');
+
+            console.log(`✅ Nodes saved to: ${NODES_OUTPUT_PATH}`);
+            console.log(`✅ Links saved to: ${LINKS_OUTPUT_PATH}`);
+        }
 
         // Print some statistics
         const departmentCounts = new Map<string, number>();
@@ -377,7 +459,7 @@ async function main() {
 
         // Count outgoing links for each node (how many courses each course is a prerequisite for)
         const outgoingLinkCounts = new Map<string, number>();
-        links.forEach(link => {
+        links.filter(link => link.kind !== 'equivalent').forEach(link => {
             outgoingLinkCounts.set(link.source, (outgoingLinkCounts.get(link.source) || 0) + 1);
         });
 
@@ -433,6 +515,9 @@ async function main() {
 
 // Export for potential use in other modules
 export { generateNodesAndLinks, extractCourseRequirementsWithValues };
+export type { Node, Link };
 
 // Run the export
-main().catch(console.error);
+if (import.meta.main) {
+    main().catch(console.error);
+}
@@ -0,0 +1,199 @@
+/**
+ * Graph Formats:
+ * Serialisers for the nodes and links produced by export.ts (course links, or
+ * the gate graph from hypergraph.ts).
+ * - graphml: GraphML for Gephi, yEd and networkx
+ * - gexf: GEXF 1.3 for Gephi
+ * - cytoscape: Cytoscape.js elements JSON
+ * - d3: { nodes, links } JSON for d3-force / force-graph
+ *
+ * Every node and link field is kept as an attribute (link `value` is also the
+ * GEXF edge weight), so new fields show up without changes here. Equivalent
+ * links are written as undirected edges.
+ */
+
+export interface Graph {
+    nodes: Array<{ id: string; title: string }>;
+    links: Array<{ source: string; target: string; kind: string; value?: number }>;
+}
+
+export interface GraphFormat {
+    name: string;
+    file: string; // written to data/
+    serialize(graph: Graph): string;
+}
+
+type AttributeType = 'int' | 'double' | 'boolean' | 'string';
+
+interface Attribute {
+    name: string;
+    type: AttributeType;
+}
+
+const GEXF_TYPES: Record<AttributeType, string> = {
+    int: 'integer',
+    double: 'double',
+    boolean: 'boolean',
+    string: 'string'
+};
+
+export const GRAPH_FORMATS: GraphFormat[] = [
+    { name: 'graphml', file: 'graph.graphml', serialize: toGraphML },
+    { name: 'gexf', file: 'graph.gexf', serialize: toGEXF },
+    { name: 'cytoscape', file: 'graph.cytoscape.json', serialize: graph => JSON.stringify(toCytoscape(graph), null, 2) },
+    { name: 'd3', file: 'graph.d3.json', serialize: graph => JSON.stringify(toD3(graph), null, 2) }
+];
+
+export function getGraphFormat(name: string): GraphFormat | undefined {
+    return GRAPH_FORMATS.find(format => format.name === name);
+}
+
+export function toGraphML(graph: Graph): string {
+    const nodeAttributes = collectAttributes(graph.nodes, ['id']);
+    const linkAttributes = collectAttributes(graph.links, ['source', 'target']);
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        ...nodeAttributes.map(attr => `  <key id="n_${attr.name}" for="node" attr.name="${attr.name}" attr.type="${attr.type}"/>`),
+        ...linkAttributes.map(attr => `  <key id="e_${attr.name}" for="edge" attr.name="${attr.name}" attr.type="${attr.type}"/>`),
+        '  <graph id="prerequisites" edgedefault="directed">'
+    ];
+
+    for (const node of graph.nodes) {
+        lines.push(`    <node id="${escapeXml(node.id)}">`);
+        lines.push(...dataElements(node, nodeAttributes, 'n'));
+        lines.push('    </node>');
+    }
+
+    graph.links.forEach((link, i) => {
+        const directed = link.kind === 'equivalent' ? ' directed="false"' : '';
+        lines.push(`    <edge id="e${i}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}"${directed}>`);
+        lines.push(...dataElements(link, linkAttributes, 'e'));
+        lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n');
+}
+
+export function toGEXF(graph: Graph): string {
+    const nodeAttributes = collectAttributes(graph.nodes, ['id', 'title']);
+    const linkAttributes = collectAttributes(graph.links, ['source', 'target', 'value']);
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+        '  <meta>',
+        '    <creator>ubc-parse-prerequisites</creator>',
+        '    <description>UBC course prerequisites</description>',
+        '  </meta>',
+        '  <graph mode="static" defaultedgetype="directed">',
+        '    <attributes class="node">',
+        ...nodeAttributes.map(attr => `      <attribute id="${attr.name}" title="${attr.name}" type="${GEXF_TYPES[attr.type]}"/>`),
+        '    </attributes>',
+        '    <attributes class="edge">',
+        ...linkAttributes.map(attr => `      <attribute id="${attr.name}" title="${attr.name}" type="${GEXF_TYPES[attr.type]}"/>`),
+        '    </attributes>',
+        '    <nodes>'
+    ];
+
+    for (const node of graph.nodes) {
+        lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.title)}">`);
+        lines.push(...attributeValues(node, nodeAttributes));
+        lines.push('      </node>');
+    }
+
+    lines.push('    </nodes>', '    <edges>');
+
+    graph.links.forEach((link, i) => {
+        const type = link.kind === 'equivalent' ? ' type="undirected"' : '';
+        lines.push(`      <edge id="${i}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}" weight="${link.value ?? 1}"${type}>`);
+        lines.push(...attributeValues(link, linkAttributes));
+        lines.push('      </edge>');
+    });
+
+    lines.push('    </edges>', '  </graph>', '</gexf>');
+    return lines.join('\n');
+}
+
+export function toCytoscape(graph: Graph) {
+    return {
+        elements: {
+            nodes: graph.nodes.map(node => ({ data: definedFields(node) })),
+            edges: graph.links.map((link, i) => ({ data: { id: `e${i}`, ...definedFields(link) } }))
+        }
+    };
+}
+
+export function toD3(graph: Graph) {
+    return {
+        nodes: graph.nodes.map(node => definedFields(node)),
+        links: graph.links.map(link => definedFields(link))
+    };
+}
+
+// Every field set on at least one item, typed by the values it takes
+function collectAttributes(items: object[], exclude: string[]): Attribute[] {
+    const types = new Map<string, AttributeType>();
+
+    for (const item of items) {
+        for (const [name, value] of Object.entries(item)) {
+            if (value === undefined || value === null || exclude.includes(name)) continue;
+
+            const type = attributeType(value);
+            const previous = types.get(name);
+            if (!previous || previous === type) {
+                types.set(name, type);
+            } else if ((previous === 'int' && type === 'double') || (previous === 'double' && type === 'int')) {
+                types.set(name, 'double');
+            } else {
+                types.set(name, 'string');
+            }
+        }
+    }
+
+    return Array.from(types, ([name, type]) => ({ name, type }));
+}
+
+function attributeType(value: unknown): AttributeType {
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double';
+    return 'string';
+}
+
+function dataElements(item: object, attributes: Attribute[], prefix: string): string[] {
+    const values = item as Record<string, unknown>;
+    return attributes
+        .filter(attr => values[attr.name] !== undefined && values[attr.name] !== null)
+        .map(attr => `      <data key="${prefix}_${attr.name}">${escapeXml(formatValue(values[attr.name]))}</data>`);
+}
+
+function attributeValues(item: object, attributes: Attribute[]): string[] {
+    const values = item as Record<string, unknown>;
+    const present = attributes.filter(attr => values[attr.name] !== undefined && values[attr.name] !== null);
+    if (present.length === 0) return [];
+
+    return [
+        '        <attvalues>',
+        ...present.map(attr => `          <attvalue for="${attr.name}" value="${escapeXml(formatValue(values[attr.name]))}"/>`),
+        '        </attvalues>'
+    ];
+}
+
+function definedFields(item: object): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined));
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,270 @@
+import type { CourseSaveFile, CourseParsedRequirements, Requirements } from './types';
+
+/**
+ * Rule-based parser for the common prerequisite phrasings.
+ *
+ * Grammar (one requirement text, case-insensitive keywords):
+ *   text      := sentence ('.' sentence)*
+ *   sentence  := clause | clause 'is recommended' | 'recommended:' clause
+ *   clause    := 'either' '(a)' clause 'or' '(b)' clause ...
+ *              | item (('and' | 'or') item)*        -- a single connector per clause
+ *   item      := grade? (list | course | standing | permission)
+ *   list      := ('one of' | 'two of' | ... | 'ten of' | 'all of') course (',' course)*
+ *   grade     := 'a score of 68% or higher in' | 'minimum 68% in' | ...
+ *
+ * A grade applies to every course after it in the clause, up to the next grade, so
+ * "minimum 68% in MATH 100 and MATH 101" needs 68% in both.
+ *
+ * Anything outside this grammar makes the parser give up and return null, so
+ * the caller can fall back to the LLM. Mixing 'and' with 'or' in one clause is
+ * rejected on purpose because the calendar text is ambiguous about precedence.
+ */
+
+type Token =
+    | { kind: 'course'; course: string }
+    | { kind: 'comma' }
+    | { kind: 'and' }
+    | { kind: 'or' }
+    | { kind: 'list'; logic: 'ALL_OF' | 'ONE_OF' | 'N_OF'; count?: number }
+    | { kind: 'standing'; standing: '1st' | '2nd' | '3rd' | '4th' }
+    | { kind: 'permission'; note: string }
+    | { kind: 'grade'; minGrade: number };
+
+interface ParsedText {
+    required?: Requirements;
+    recommended?: Requirements;
+}
+
+const STANDING_WORDS: Record<string, '1st' | '2nd' | '3rd' | '4th'> = {
+    first: '1st', '1st': '1st',
+    second: '2nd', '2nd': '2nd',
+    third: '3rd', '3rd': '3rd',
+    fourth: '4th', '4th': '4th'
+};
+
+const STANDING_WORD = '(first|second|third|fourth|1st|2nd|3rd|4th)';
+
+const COUNT_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5,
+    six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+/**
+ * Parses a course's requirement text locally. Returns null when any part of
+ * the text is outside the supported grammar.
+ */
+export function parseWithRules(courseData: CourseSaveFile): CourseParsedRequirements | null {
+    const [department, code] = courseData.course.split(' ');
+    if (!department || !code) return null;
+
+    const result: CourseParsedRequirements = { department, code };
+
+    if (courseData.originalPrerequisite) {
+        const prerequisites = parseRequirementText(courseData.originalPrerequisite);
+        if (!prerequisites) return null;
+        if (prerequisites.required) result.prerequisites = prerequisites.required;
+        if (prerequisites.recommended) result.recommendedPrerequisites = prerequisites.recommended;
+    }
+
+    if (courseData.originalCorequisite) {
+        const corequisites = parseRequirementText(courseData.originalCorequisite);
+        if (!corequisites) return null;
+        if (corequisites.required) result.corequisites = corequisites.required;
+        if (corequisites.recommended) result.recommendedCorequisites = corequisites.recommended;
+    }
+
+    return result;
+}
+
+/**
+ * Parses one prerequisite or corequisite text into required and recommended parts
+ */
+export function parseRequirementText(text: string): ParsedText | null {
+    const sentences = text
+        .trim()
+        .replace(/\.$/, '')
+        .split(/\.\s+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence.length > 0);
+
+    if (sentences.length === 0) return null;
+
+    const required: Requirements[] = [];
+    const recommended: Requirements[] = [];
+
+    for (const sentence of sentences) {
+        const recommendedMatch = sentence.match(/^(.+?),?\s+(?:is |are )?(?:strongly )?recommended$/i)
+            || sentence.match(/^(?:strongly )?recommended:\s*(.+)$/i);
+
+        const clause = parseClause(recommendedMatch ? recommendedMatch[1]! : sentence);
+        if (!clause) return null;
+
+        (recommendedMatch ? recommended : required).push(clause);
+    }
+
+    return {
+        required: combine('ALL_OF', required),
+        recommended: combine('ALL_OF', recommended)
+    };
+}
+
+function parseClause(text: string): Requirements | null {
+    // Labelled alternatives: "Either (a) X or (b) Y"
+    const either = text.match(/^(?:either|one of)\s+\(a\)\s*(.+)$/i);
+    if (either) {
+        const parts = either[1]!.split(/,?;?\s+or\s+\([b-z]\)\s*/i);
+        if (parts.length < 2) return null;
+
+        const alternatives: Requirements[] = [];
+        for (const part of parts) {
+            const alternative = parseClause(part.replace(/,$/, '').trim());
+            if (!alternative) return null;
+            alternatives.push(alternative);
+        }
+        return combine('ONE_OF', alternatives) || null;
+    }
+
+    const tokens = tokenize(text);
+    if (!tokens || tokens.length === 0) return null;
+
+    const items: Requirements[] = [];
+    let connector: 'and' | 'or' | undefined;
+    let minGrade: number | undefined;
+    let position = 0;
+
+    while (position < tokens.length) {
+        const item = parseItem(tokens, position, minGrade);
+        if (!item) return null;
+        items.push(item.requirement);
+        minGrade = item.minGrade;
+        position = item.next;
+
+        if (position >= tokens.length) break;
+
+        const token = tokens[position]!;
+        if (token.kind !== 'and' && token.kind !== 'or') return null;
+        if (connector && connector !== token.kind) return null;
+        connector = token.kind;
+        position++;
+    }
+
+    return combine(connector === 'or' ? 'ONE_OF' : 'ALL_OF', items) || null;
+}
+
+// `inheritedGrade` is the grade set earlier in the clause; the returned minGrade carries on to the next item
+function parseItem(tokens: Token[], position: number, inheritedGrade?: number): { requirement: Requirements; next: number; minGrade?: number } | null {
+    let minGrade = inheritedGrade;
+    let graded = false;
+    let token = tokens[position];
+
+    if (token?.kind === 'grade') {
+        minGrade = token.minGrade;
+        graded = true;
+        token = tokens[++position];
+    }
+
+    if (!token) return null;
+
+    switch (token.kind) {
+        case 'course':
+            return { requirement: courseRequirement(token.course, minGrade), next: position + 1, minGrade };
+
+        case 'list': {
+            // One of/N of lists may continue with "or", all of lists with "and"
+            const continuation = token.logic === 'ALL_OF' ? 'and' : 'or';
+            const courses: Requirements[] = [];
+            let next = position + 1;
+
+            while (true) {
+                const course = tokens[next];
+                if (course?.kind !== 'course') return null;
+                courses.push(courseRequirement(course.course, minGrade));
+                next++;
+
+                const separator = tokens[next];
+                const following = tokens[next + 1];
+                if (!separator || following?.kind !== 'course') break;
+                if (separator.kind !== 'comma' && separator.kind !== continuation) break;
+                next++;
+            }
+
+            if (token.logic === 'N_OF' && courses.length < token.count!) return null;
+            const requirement = token.logic === 'N_OF'
+                ? { type: 'group' as const, logic: 'N_OF' as const, count: token.count, children: courses }
+                : combine(token.logic, courses);
+            return requirement ? { requirement, next, minGrade } : null;
+        }
+
+        case 'standing':
+            if (graded) return null;
+            return { requirement: { type: 'standing', standing: token.standing }, next: position + 1, minGrade };
+
+        case 'permission':
+            if (graded) return null;
+            return { requirement: { type: 'permission', note: token.note }, next: position + 1, minGrade };
+
+        default:
+            return null;
+    }
+}
+
+function tokenize(text: string): Token[] | null {
+    const tokens: Token[] = [];
+    let rest = text.trim();
+    let lastDepartment: string | undefined;
+
+    while (rest.length > 0) {
+        let match: RegExpMatchArray | null;
+
+        if ((match = rest.match(/^([A-Z]{2,4})\s?(\d{3}[A-Z]?)\b/))) {
+            lastDepartment = match[1]!;
+            tokens.push({ kind: 'course', course: `${match[1]} ${match[2]}` });
+        } else if ((match = rest.match(/^(\d{3}[A-Z]?)\b/))) {
+            // Shorthand such as "PSYC 101, 102" reuses the previous department
+            if (!lastDepartment) return null;
+            tokens.push({ kind: 'course', course: `${lastDepartment} ${match[1]}` });
+        } else if ((match = rest.match(/^,/))) {
+            tokens.push({ kind: 'comma' });
+        } else if ((match = rest.match(/^(one|two|three|four|five|six|seven|eight|nine|ten|all) of\b/i))) {
+            const word = match[1]!.toLowerCase();
+            if (word === 'all') tokens.push({ kind: 'list', logic: 'ALL_OF' });
+            else if (word === 'one') tokens.push({ kind: 'list', logic: 'ONE_OF' });
+            else tokens.push({ kind: 'list', logic: 'N_OF', count: COUNT_WORDS[word]! });
+        } else if ((match = rest.match(new RegExp(`^${STANDING_WORD}-? or ${STANDING_WORD}[- ]year standing\\b`, 'i')))
+            || (match = rest.match(new RegExp(`^(?:at least |minimum (?:of )?)?${STANDING_WORD}[- ]year standing(?: or (?:higher|above))?`, 'i')))) {
+            tokens.push({ kind: 'standing', standing: STANDING_WORDS[match[1]!.toLowerCase()]! });
+        } else if ((match = rest.match(/^(?:the )?permission of (?:the )?instructor(?: (?:is )?required)?/i))) {
+            tokens.push({ kind: 'permission', note: 'Permission of instructor' });
+        } else if ((match = rest.match(/^(?:a )?(?:minimum )?(?:(?:score|grade|mark) of )?(\d{1,3})%(?: or (?:higher|above|better))? in\b/i))) {
+            const minGrade = parseInt(match[1]!, 10);
+            if (minGrade > 100) return null;
+            tokens.push({ kind: 'grade', minGrade });
+        } else if ((match = rest.match(/^and\b/i))) {
+            tokens.push({ kind: 'and' });
+        } else if ((match = rest.match(/^or\b/i))) {
+            tokens.push({ kind: 'or' });
+        } else {
+            return null;
+        }
+
+        rest = rest.slice(match[0].length).trim();
+    }
+
+    return tokens;
+}
+
+function courseRequirement(course: string, minGrade?: number): Requirements {
+    return minGrade !== undefined ? { type: 'course', course, minGrade } : { type: 'course', course };
+}
+
+// Wrap requirements in a group, flattening nested groups of the same logic and
+// leaving single requirements unwrapped
+function combine(logic: 'ALL_OF' | 'ONE_OF', requirements: Requirements[]): Requirements | undefined {
+    const children = requirements.flatMap(req =>
+        req.type === 'group' && req.logic === logic ? req.children : [req]
+    );
+
+    if (children.length === 0) return undefined;
+    if (children.length === 1) return children[0];
+    return { type: 'group', logic, children };
+}
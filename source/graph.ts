@@ -0,0 +1,197 @@
+import type { CourseSaveFile, Requirements } from './types';
+import { extractEdges } from './database';
+
+/**
+ * Prerequisite Graph:
+ * Courses point at the courses named in their prerequisites and corequisites.
+ * The graph isn't guaranteed to be acyclic (e.g. AFST 250 and AFST 351 each list
+ * the other), so it's split into strongly connected components with Tarjan's
+ * algorithm first:
+ * - every component with more than one course, or a course requiring itself, is a cycle
+ * - cycles that disappear when corequisites are ignored are corequisite loops, which
+ *   usually just mean "take these together"
+ * - depths are computed once per component, in topological order, so chains of any
+ *   length are followed and every course in a cycle shares one depth
+ */
+
+export interface CourseCycle {
+    courses: string[]; // sorted
+    corequisiteOnly: boolean; // only a loop because of corequisite edges
+}
+
+// Requirement edges that depths follow; recommendations aren't needed to take a course
+type DependencyKind = 'prerequisite' | 'corequisite';
+
+// course -> required course -> kinds of the edges between them
+type DependencyGraph = Map<string, Map<string, Set<DependencyKind>>>;
+
+function buildDependencyGraph(parsedCourses: CourseSaveFile[]): DependencyGraph {
+    const graph: DependencyGraph = new Map();
+
+    for (const course of parsedCourses) {
+        const dependencies = new Map<string, Set<DependencyKind>>();
+        graph.set(course.course, dependencies);
+
+        for (const edge of extractEdges(course)) {
+            if (edge.kind !== 'prerequisite' && edge.kind !== 'corequisite') continue;
+            if (!dependencies.has(edge.requires)) dependencies.set(edge.requires, new Set());
+            dependencies.get(edge.requires)!.add(edge.kind);
+        }
+    }
+
+    return graph;
+}
+
+/**
+ * Tarjan's algorithm, iterative so long chains don't overflow the stack. Components
+ * come out in reverse topological order: a component is listed after every
+ * component it depends on.
+ */
+function findComponents(nodes: string[], successors: (node: string) => string[]): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    for (const root of nodes) {
+        if (index.has(root)) continue;
+
+        // Each frame is a node and the position of the next successor to visit
+        const frames: Array<{ node: string; next: number; successors: string[] }> = [];
+        const visit = (node: string) => {
+            index.set(node, nextIndex);
+            lowLink.set(node, nextIndex);
+            nextIndex++;
+            stack.push(node);
+            onStack.add(node);
+            frames.push({ node, next: 0, successors: successors(node) });
+        };
+        visit(root);
+
+        while (frames.length > 0) {
+            const frame = frames[frames.length - 1]!;
+
+            if (frame.next < frame.successors.length) {
+                const successor = frame.successors[frame.next++]!;
+                if (!index.has(successor)) {
+                    visit(successor);
+                } else if (onStack.has(successor)) {
+                    lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(successor)!));
+                }
+                continue;
+            }
+
+            frames.pop();
+            const parent = frames[frames.length - 1];
+            if (parent) {
+                lowLink.set(parent.node, Math.min(lowLink.get(parent.node)!, lowLink.get(frame.node)!));
+            }
+
+            if (lowLink.get(frame.node) === index.get(frame.node)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.node);
+                components.push(component);
+            }
+        }
+    }
+
+    return components;
+}
+
+function isCycle(component: string[], graph: DependencyGraph, kinds: DependencyKind[]): boolean {
+    if (component.length > 1) return true;
+    const course = component[0]!;
+    return Array.from(graph.get(course)?.get(course) || []).some(kind => kinds.includes(kind));
+}
+
+function findCyclesIn(components: string[][], graph: DependencyGraph): CourseCycle[] {
+    const cycles: CourseCycle[] = [];
+
+    for (const component of components) {
+        if (!isCycle(component, graph, ['prerequisite', 'corequisite'])) continue;
+
+        // Look for a loop among the same courses using prerequisite edges alone
+        const members = new Set(component);
+        const prerequisitesOnly = (course: string) => Array.from(graph.get(course) || [])
+            .filter(([required, kinds]) => members.has(required) && kinds.has('prerequisite'))
+            .map(([required]) => required);
+        const prerequisiteLoop = findComponents(component, prerequisitesOnly)
+            .some(inner => isCycle(inner, graph, ['prerequisite']));
+
+        cycles.push({ courses: [...component].sort(), corequisiteOnly: !prerequisiteLoop });
+    }
+
+    return cycles.sort((a, b) => a.courses[0]!.localeCompare(b.courses[0]!));
+}
+
+// Calculate the prerequisite depth for a requirement; courses in `skip` (the
+// requiring course's own component) don't add to it
+function calculatePrerequisiteDepth(node: Requirements, courseDepths: Map<string, number>, skip: Set<string>): number {
+    switch (node.type) {
+        case 'course':
+            if (skip.has(node.course)) return 0;
+            // Return the depth of this course (0 if no prerequisites, or calculated depth + 1)
+            return (courseDepths.get(node.course) || 0) + 1;
+
+        case 'group':
+            if (node.children.length === 0) return 0;
+
+            const childDepths = node.children.map(child =>
+                calculatePrerequisiteDepth(child, courseDepths, skip)
+            ).filter(depth => depth > 0); // Filter out courses with no prerequisites
+
+            if (childDepths.length === 0) return 0;
+
+            if (node.logic === 'ONE_OF') {
+                // For ONE_OF, take the minimum depth (easiest path)
+                return Math.min(...childDepths);
+            } else if (node.logic === 'N_OF') {
+                // For N_OF, take the Nth minimum depth (need N courses)
+                const sorted = childDepths.sort((a, b) => a - b);
+                return sorted[Math.min(node.count || 1, sorted.length) - 1]!;
+            } else {
+                // For ALL_OF, take the maximum depth (need all courses)
+                return Math.max(...childDepths);
+            }
+
+        // Ignore other types (credit_count, course_count, standing, etc.)
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Splits the parsed courses' requirement graph into components, returning each
+ * course's prerequisite depth and every cycle found
+ */
+export function analyzeCourseGraph(parsedCourses: CourseSaveFile[]): { depths: Map<string, number>, cycles: CourseCycle[] } {
+    const graph = buildDependencyGraph(parsedCourses);
+    const requirements = new Map(parsedCourses.map(course => [course.course, course.parsedRequirements!]));
+    const components = findComponents(Array.from(graph.keys()), course => Array.from(graph.get(course)?.keys() || []));
+    const depths = new Map<string, number>();
+
+    // Dependencies come first, so every course outside the component already has its final depth
+    for (const component of components) {
+        const members = new Set(component);
+        let depth = 0;
+
+        for (const course of component) {
+            const req = requirements.get(course);
+            if (!req) continue; // Referenced but never parsed: depth 0
+
+            if (req.prerequisites) depth = Math.max(depth, calculatePrerequisiteDepth(req.prerequisites, depths, members));
+            if (req.corequisites) depth = Math.max(depth, calculatePrerequisiteDepth(req.corequisites, depths, members));
+        }
+
+        component.forEach(course => depths.set(course, depth));
+    }
+
+    return { depths, cycles: findCyclesIn(components, graph) };
+}
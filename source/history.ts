@@ -0,0 +1,76 @@
+import type { ParseHistoryEntry } from './types';
+import { openCourseRepository } from './repository';
+
+/**
+ * Prints the parse history of one course, oldest attempt first.
+ *
+ * Usage: bun run history <COURSE> [--full] [--db | --db=path]
+ *   COURSE may be written "CPSC 110", CPSC_110 or cpsc110
+ *   --full prints each LLM answer in full instead of the first line
+ */
+
+const OUTCOME_ICONS: Record<ParseHistoryEntry['outcome'], string> = {
+    parsed: '✅',
+    needs_review: '🔎',
+    invalid: '❌',
+    blacklisted: '🚫'
+};
+
+const PREVIEW_LENGTH = 120;
+
+async function main() {
+    const args = process.argv.slice(2);
+    const full = args.includes('--full');
+
+    // Everything that isn't a flag is part of the course code
+    const course = args
+        .filter(arg => !arg.startsWith('--'))
+        .join(' ')
+        .replace(/^([A-Za-z]+)(\d)/, '$1 $2');
+
+    if (!course) {
+        console.error('Usage: bun run history <COURSE> [--full] [--db | --db=path]');
+        process.exit(1);
+    }
+
+    const courseData = openCourseRepository().get(course);
+    if (!courseData) {
+        console.error(`Course not found: ${course}`);
+        process.exit(1);
+    }
+
+    console.log(`📜 ${courseData.course} (${courseData.status}, last updated ${courseData.lastUpdated})`);
+    if (courseData.originalPrerequisite) console.log(`  Prerequisites: ${courseData.originalPrerequisite}`);
+    if (courseData.originalCorequisite) console.log(`  Corequisites: ${courseData.originalCorequisite}`);
+    if (courseData.status === 'error' && courseData.errorMessage) console.log(`  Error: ${courseData.errorMessage}`);
+    if (courseData.status === 'blacklisted' && courseData.blacklistReason) console.log(`  Blacklisted: ${courseData.blacklistReason}`);
+    courseData.reviewNotes?.forEach(note => console.log(`  Review: ${note}`));
+
+    const history = courseData.history || [];
+    if (history.length === 0) {
+        console.log('\nNo parse attempts recorded.');
+        return;
+    }
+
+    console.log(`\n${history.length} attempt${history.length === 1 ? '' : 's'}:`);
+    history.forEach((entry, i) => {
+        const prompt = entry.promptHash ? `, prompt ${entry.promptHash}` : '';
+        console.log(`\n${i + 1}. ${entry.timestamp} ${OUTCOME_ICONS[entry.outcome]} ${entry.outcome} (${entry.model}${prompt})`);
+        if (entry.validationError) console.log(`   Error: ${entry.validationError}`);
+
+        if (entry.rawContent) {
+            const content = full ? entry.rawContent : preview(entry.rawContent);
+            console.log(`   Response: ${content.split('\n').join('\n   ')}`);
+        }
+    });
+}
+
+function preview(text: string): string {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > PREVIEW_LENGTH ? `${line.slice(0, PREVIEW_LENGTH)}...` : line;
+}
+
+main().catch(error => {
+    console.error('Error printing history:', error);
+    process.exit(1);
+});
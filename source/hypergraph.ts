@@ -0,0 +1,150 @@
+import type { CourseSaveFile, Requirements } from './types';
+import type { EdgeKind } from './database';
+import { describeRequirement } from './eligibility';
+
+/**
+ * Hypergraph Export:
+ * Keeps the group structure that the link export flattens into weighted
+ * course → course links. Every RequirementGroup becomes a gate node:
+ * - AND for ALL_OF, OR for ONE_OF, "N OF" for N_OF (with its count)
+ * - each child (a course, a nested gate or a condition such as standing)
+ *   links into the gate, and the gate links into the course it belongs to
+ * So "MATH 100 or MATH 102" is MATH 100 → OR, MATH 102 → OR, OR → course,
+ * where the link export would give two half-weight links.
+ *
+ * Gate and condition ids are "<course> <kind> <path>", e.g.
+ * "CPSC 221 prerequisite ALL_OF[1]", so they are unique and stable across runs.
+ */
+
+export type HyperNodeType = 'course' | 'gate' | 'condition';
+
+export interface HyperNode {
+    id: string;
+    title: string; // course title, gate label (AND, OR, 2 OF) or the condition text
+    type: HyperNodeType;
+    dept: string; // the course's department; for gates and conditions, the department of the course they belong to
+    logic?: 'ALL_OF' | 'ONE_OF' | 'N_OF';
+    count?: number; // how many children an N_OF gate needs
+}
+
+export interface HyperLink {
+    source: string;
+    target: string;
+    kind: EdgeKind;
+    minGrade?: number;
+    concurrentAllowed: boolean;
+}
+
+const ROOTS: Array<[EdgeKind, 'prerequisites' | 'corequisites' | 'recommendedPrerequisites' | 'recommendedCorequisites']> = [
+    ['prerequisite', 'prerequisites'],
+    ['corequisite', 'corequisites'],
+    ['recommended_prerequisite', 'recommendedPrerequisites'],
+    ['recommended_corequisite', 'recommendedCorequisites']
+];
+
+/**
+ * Builds the gate graph of every parsed course for the given link kinds
+ */
+export function generateHypergraph(courses: CourseSaveFile[], kinds: EdgeKind[]): { nodes: HyperNode[], links: HyperLink[] } {
+    const nodes = new Map<string, HyperNode>();
+    const links: HyperLink[] = [];
+    const catalog = new Map(courses.map(course => [course.course, course]));
+
+    const addCourse = (id: string) => {
+        if (nodes.has(id)) return;
+        nodes.set(id, {
+            id: id,
+            title: catalog.get(id)?.title || id,
+            type: 'course',
+            dept: id.split(' ')[0] || 'UNKNOWN',
+            logic: undefined,
+            count: undefined
+        });
+    };
+
+    // Adds a requirement and links it into `parent`, a course or gate id
+    const addRequirement = (req: Requirements, parent: string, kind: EdgeKind, prefix: string, path: string, dept: string) => {
+        const concurrent = kind === 'corequisite' || kind === 'recommended_corequisite';
+
+        switch (req.type) {
+            case 'course':
+                addCourse(req.course);
+                links.push({
+                    source: req.course,
+                    target: parent,
+                    kind: kind,
+                    minGrade: req.minGrade,
+                    concurrentAllowed: concurrent || !!(req.canBeTakenConcurrently || req.mustBeTakenConcurrently)
+                });
+                break;
+
+            case 'group': {
+                const label = req.logic === 'N_OF' ? `${req.count}_OF` : req.logic;
+                const id = `${prefix} ${path || label}`;
+                nodes.set(id, {
+                    id: id,
+                    title: req.logic === 'ALL_OF' ? 'AND' : req.logic === 'ONE_OF' ? 'OR' : `${req.count} OF`,
+                    type: 'gate',
+                    dept: dept,
+                    logic: req.logic,
+                    count: req.logic === 'N_OF' ? req.count : undefined
+                });
+                links.push({ source: id, target: parent, kind: kind, minGrade: undefined, concurrentAllowed: concurrent });
+
+                // Children are named by the same group paths as the link export
+                req.children.forEach((child, i) => {
+                    addRequirement(child, id, kind, prefix, path ? `${path}/${label}[${i}]` : `${label}[${i}]`, dept);
+                });
+                break;
+            }
+
+            default: {
+                // Standing, credit counts, programs, permissions and free text
+                const id = `${prefix} ${path || req.type}`;
+                nodes.set(id, {
+                    id: id,
+                    title: describeRequirement(req),
+                    type: 'condition',
+                    dept: dept,
+                    logic: undefined,
+                    count: undefined
+                });
+                links.push({ source: id, target: parent, kind: kind, minGrade: undefined, concurrentAllowed: concurrent });
+            }
+        }
+    };
+
+    const parsedCourses = courses.filter(course => course.status === 'parsed' && course.parsedRequirements);
+    const equivalentPairs = new Set<string>();
+
+    for (const course of parsedCourses) {
+        const req = course.parsedRequirements!;
+        addCourse(course.course);
+
+        for (const [kind, field] of ROOTS) {
+            const root = req[field];
+            if (!root || !kinds.includes(kind)) continue;
+            addRequirement(root, course.course, kind, `${course.course} ${kind}`, '', req.department);
+        }
+    }
+
+    // Equivalents have no structure and come from the description, so every course
+    // contributes them; each pair gets one link between the courses
+    if (kinds.includes('equivalent')) {
+        for (const course of courses) {
+            for (const equivalent of course.equivalents || []) {
+                const [source, target] = [course.course, equivalent].sort() as [string, string];
+                if (equivalentPairs.has(`${source}<->${target}`)) continue;
+                equivalentPairs.add(`${source}<->${target}`);
+
+                addCourse(course.course);
+                addCourse(equivalent);
+                links.push({ source, target, kind: 'equivalent', minGrade: undefined, concurrentAllowed: false });
+            }
+        }
+    }
+
+    // Keep only nodes that ended up linked, like the link export
+    const linked = new Set(links.flatMap(link => [link.source, link.target]));
+    return { nodes: Array.from(nodes.values()).filter(node => linked.has(node.id)), links };
+}
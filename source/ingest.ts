@@ -0,0 +1,318 @@
+import fs from 'fs';
+import path from 'path';
+import fetch from 'node-fetch';
+import type { CourseSaveFile } from './types';
+import { SCHEMA_VERSION } from './types';
+import { normalizeCourseCode } from './utilities';
+
+/**
+ * Ingestion Adapters:
+ * Each adapter reads course data from one kind of source and maps it into
+ * fresh CourseSaveFiles, so initialize.ts can merge any of them the same way.
+ * - ubcfinder: the ubcfinder.com JSON dump (cached in data/fetch/courses.json)
+ * - file: a local JSON array or CSV file with course, prerequisite and corequisite columns
+ * - html: UBC calendar pages saved to disk (a single file or a directory of them)
+ */
+
+export interface IngestionOptions {
+    input?: string; // file or directory for the local adapters
+    cached?: boolean; // ubcfinder: reuse the last download instead of fetching
+}
+
+export type CourseMetadata = Pick<CourseSaveFile, 'title' | 'credits' | 'description' | 'link' | 'department'>;
+
+export const METADATA_FIELDS: Array<keyof CourseMetadata> = ['title', 'credits', 'description', 'link', 'department'];
+
+export interface IngestionAdapter {
+    name: string;
+    description: string;
+    partial: boolean; // may cover only some departments, so absent courses elsewhere aren't removed
+    load(options: IngestionOptions): Promise<CourseSaveFile[]>;
+}
+
+const UBCFINDER_URL = 'https://www.ubcfinder.com/data/course-data/subjects-prereqs/course-prereqs.json';
+export const UBCFINDER_CACHE_PATH = path.join(__dirname, 'data', 'fetch', 'courses.json');
+
+// Column names accepted by the file adapter, in order of preference
+const COURSE_FIELDS = ['course', 'code', 'id'];
+const PREREQUISITE_FIELDS = ['prerequisite', 'prerequisites', 'prer'];
+const COREQUISITE_FIELDS = ['corequisite', 'corequisites', 'crer'];
+const TITLE_FIELDS = ['title', 'name'];
+const CREDITS_FIELDS = ['credits', 'cred'];
+const DESCRIPTION_FIELDS = ['description', 'desc'];
+const LINK_FIELDS = ['link', 'url'];
+const DEPARTMENT_FIELDS = ['department', 'dept'];
+
+const ubcfinderAdapter: IngestionAdapter = {
+    name: 'ubcfinder',
+    description: 'ubcfinder.com course dump',
+    partial: false,
+    async load(options) {
+        let data: any[];
+
+        if (options.cached) {
+            data = JSON.parse(fs.readFileSync(UBCFINDER_CACHE_PATH, 'utf-8'));
+            console.log('Using previously fetched data from:', UBCFINDER_CACHE_PATH);
+        } else {
+            const response = await fetch(UBCFINDER_URL);
+            if (!response.ok) {
+                throw new Error(`Failed to fetch data: ${response.statusText}`);
+            }
+
+            data = await response.json() as any[];
+
+            fs.mkdirSync(path.dirname(UBCFINDER_CACHE_PATH), { recursive: true });
+            fs.writeFileSync(UBCFINDER_CACHE_PATH, JSON.stringify(data, null, 2), 'utf-8');
+            console.log('Data successfully fetched and stored in:', UBCFINDER_CACHE_PATH);
+        }
+
+        return data.flatMap(course => {
+            const courseCode = course.course || course.code || course.id;
+            if (!courseCode) return [];
+            return [createCourseFile(courseCode, course.prer, course.crer, {
+                title: cleanText(course.name) ?? undefined,
+                credits: parseCredits(course.cred),
+                description: cleanText(course.desc) ?? undefined,
+                link: cleanText(course.link) ?? undefined,
+                department: cleanText(course.dept) ?? undefined
+            })];
+        });
+    }
+};
+
+const fileAdapter: IngestionAdapter = {
+    name: 'file',
+    description: 'local JSON or CSV file',
+    partial: true,
+    async load(options) {
+        const input = requireInput(options, 'file');
+        const text = fs.readFileSync(input, 'utf-8');
+        const records = input.toLowerCase().endsWith('.csv') ? readCsvRecords(text) : JSON.parse(text);
+
+        if (!Array.isArray(records)) {
+            throw new Error(`${input} must contain an array of courses`);
+        }
+
+        return records.flatMap((record: Record<string, any>) => {
+            const courseCode = pickField(record, COURSE_FIELDS);
+            if (!courseCode) return [];
+            return [createCourseFile(
+                normalizeCourseCode(courseCode),
+                pickField(record, PREREQUISITE_FIELDS),
+                pickField(record, COREQUISITE_FIELDS),
+                {
+                    title: pickField(record, TITLE_FIELDS)?.trim(),
+                    credits: parseCredits(pickValue(record, CREDITS_FIELDS)),
+                    description: pickField(record, DESCRIPTION_FIELDS)?.trim(),
+                    link: pickField(record, LINK_FIELDS)?.trim(),
+                    department: pickField(record, DEPARTMENT_FIELDS)?.trim().toUpperCase()
+                }
+            )];
+        });
+    }
+};
+
+const htmlAdapter: IngestionAdapter = {
+    name: 'html',
+    description: 'saved UBC calendar pages',
+    partial: true,
+    async load(options) {
+        const input = requireInput(options, 'html');
+        const files = fs.statSync(input).isDirectory()
+            ? fs.readdirSync(input).filter(file => /\.html?$/i.test(file)).sort().map(file => path.join(input, file))
+            : [input];
+
+        const courses = new Map<string, CourseSaveFile>();
+        for (const file of files) {
+            for (const courseData of parseCalendarPage(fs.readFileSync(file, 'utf-8'))) {
+                courses.set(courseData.course, courseData);
+            }
+        }
+
+        console.log(`Read ${courses.size} courses from ${files.length} page${files.length === 1 ? '' : 's'}`);
+        return Array.from(courses.values());
+    }
+};
+
+export const ADAPTERS: IngestionAdapter[] = [ubcfinderAdapter, fileAdapter, htmlAdapter];
+
+export function getAdapter(name: string): IngestionAdapter | undefined {
+    return ADAPTERS.find(adapter => adapter.name === name);
+}
+
+/**
+ * Builds a fresh course file from its requirement text and metadata; courses
+ * without any text have nothing to parse and start out parsed
+ */
+export function createCourseFile(course: string, prerequisite?: string | null, corequisite?: string | null, metadata: CourseMetadata = {}): CourseSaveFile {
+    const originalPrerequisite = cleanText(prerequisite);
+    const originalCorequisite = cleanText(corequisite);
+
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        course,
+        ...pickMetadata(metadata),
+        originalPrerequisite,
+        originalCorequisite,
+        status: (!originalPrerequisite && !originalCorequisite) ? 'parsed' : 'unparsed',
+        lastUpdated: new Date().toISOString()
+    };
+}
+
+/**
+ * Extracts the courses on a saved UBC calendar page. The page is flattened to
+ * lines of text; a course starts at a "DEPT NNN (credits) Title" line and its
+ * prerequisite/corequisite text is taken from the lines up to the next course.
+ */
+export function parseCalendarPage(html: string): CourseSaveFile[] {
+    const lines = htmlToLines(html);
+    const courses: CourseSaveFile[] = [];
+    let current: { code: string; metadata: CourseMetadata; body: string[] } | undefined;
+
+    const finish = () => {
+        if (!current) return;
+        const body = current.body.join(' ');
+        // The description is everything before the first requirement label
+        const description = body.split(/\s*\b(?:Pre-?req|Co-?req|Equivalency)\w*:/i)[0]!.trim();
+        courses.push(createCourseFile(current.code, extractLabelled(body, 'pre'), extractLabelled(body, 'co'), {
+            ...current.metadata,
+            description: description || undefined
+        }));
+    };
+
+    for (const line of lines) {
+        // e.g. "CPSC_V 110 (4) Computation, Programs, and Programming"
+        const header = line.match(/^([A-Z]{2,4})(?:_[A-Z])?\s+(\d{3}[A-Z]?)\s+\(([\d.\-\/ ]+)\)\s*(.*)$/);
+        if (header) {
+            finish();
+            current = {
+                code: `${header[1]} ${header[2]}`,
+                metadata: { title: header[4] || undefined, credits: parseCredits(header[3]), department: header[1] },
+                body: []
+            };
+        } else if (current) {
+            current.body.push(line);
+        }
+    }
+    finish();
+
+    return courses;
+}
+
+/**
+ * The metadata fields that are set, in the order they're saved
+ */
+export function pickMetadata(metadata: CourseMetadata): CourseMetadata {
+    const picked: Record<string, unknown> = {};
+    for (const field of METADATA_FIELDS) {
+        if (metadata[field] !== undefined) picked[field] = metadata[field];
+    }
+    return picked as CourseMetadata;
+}
+
+// Text after "Prerequisite:" / "Corequisite:" (or "Pre-reqs:" / "Co-reqs:") up to the next label
+function extractLabelled(body: string, prefix: 'pre' | 'co'): string | null {
+    const label = prefix === 'pre' ? 'Pre-?req(?:uisite)?s?' : 'Co-?req(?:uisite)?s?';
+    const match = body.match(new RegExp(`\\b${label}:\\s*(.*?)(?=\\s*\\b(?:Pre-?req|Co-?req|Equivalency)\\w*:|$)`, 'i'));
+    return match ? match[1]! : null;
+}
+
+function htmlToLines(html: string): string[] {
+    const text = html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>|<\/(p|div|dt|dd|li|h[1-6]|tr|article|section)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+
+    return text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(line => line.length > 0);
+}
+
+// Parses CSV with a header row into records; quoted fields may contain commas, quotes and newlines
+function readCsvRecords(text: string): Array<Record<string, string>> {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!;
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter(r => r.some(value => value.trim()));
+    if (!header) return [];
+
+    const columns = header.map(column => column.trim().toLowerCase());
+    return body.map(values => Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ''])));
+}
+
+function pickField(record: Record<string, any>, names: string[]): string | undefined {
+    const value = pickValue(record, names);
+    return typeof value === 'string' ? value : undefined;
+}
+
+// The first non-empty string or number among the names, for fields such as credits
+// that JSON files may give as numbers
+function pickValue(record: Record<string, any>, names: string[]): string | number | undefined {
+    const fields = new Map(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+    for (const name of names) {
+        const value = fields.get(name);
+        if (typeof value === 'string' && value.trim()) return value;
+        if (typeof value === 'number') return value;
+    }
+    return undefined;
+}
+
+// A single credit value; ranges like "1-6" are left unset
+function parseCredits(value: unknown): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value !== 'string' || !/^\s*\d+(\.\d+)?\s*$/.test(value)) return undefined;
+    return Number(value);
+}
+
+function cleanText(text: string | null | undefined): string | null {
+    const trimmed = typeof text === 'string' ? text.trim() : '';
+    return trimmed ? trimmed : null;
+}
+
+function requireInput(options: IngestionOptions, adapter: string): string {
+    if (!options.input) {
+        throw new Error(`The ${adapter} source needs --input <path>`);
+    }
+    if (!fs.existsSync(options.input)) {
+        throw new Error(`Input not found: ${options.input}`);
+    }
+    return options.input;
+}
@@ -1,63 +1,72 @@
 import fs from 'fs';
 import path from 'path';
-import fetch from 'node-fetch';
 import type { CourseSaveFile } from './types';
-import { SCHEMA_VERSION } from './types';
+import { createCourseRepository } from './repository';
+import type { CourseRepository } from './repository';
+import { normalizeCourseCode, getCliOption } from './utilities';
+import { ADAPTERS, METADATA_FIELDS, getAdapter, pickMetadata } from './ingest';
+import { applyCreditExclusions } from './equivalents';
 
+/**
+ * Merge Rules:
+ * - new upstream courses are added (unparsed, or parsed if they have no requirement text)
+ * - courses whose prerequisite/corequisite text is unchanged keep their parse
+ * - courses whose text changed are reset to unparsed; their history is kept
+ * - metadata (title, credits, description, link, department) is refreshed on every
+ *   course without touching its parse; fields the source doesn't provide are kept
+ * - equivalents and exclusions are re-extracted from the description every run
+ * - courses no longer listed upstream are marked removed, and get their previous status
+ *   back if they return; sources that may cover only some departments (file, html) only
+ *   remove courses in the departments they list, and a source that returns no courses
+ *   at all is refused rather than removing everything
+ *
+ * Options:
+ *   --source ubcfinder|file|html   where to read courses from (default ubcfinder)
+ *   --input <path>                 file or directory for the file and html sources
+ *   --cached                       ubcfinder: merge the last download instead of fetching again
+ */
+
+interface ChangeReport {
+    added: string[];
+    changed: string[];
+    removed: string[];
+    restored: string[];
+    metadataUpdated: number;
+    unchanged: number;
+}
+
+// How many course codes to list per section of the change report
+const REPORT_LIMIT = 20;
 
 async function fetchAndStoreData() {
-    const url = 'https://www.ubcfinder.com/data/course-data/subjects-prereqs/course-prereqs.json';
-    const outputPath = path.join(__dirname, 'data', 'fetch', 'courses.json');
     const coursesDir = path.join(__dirname, 'data', 'courses');
+    const sourceName = getCliOption('source') || 'ubcfinder';
+    const adapter = getAdapter(sourceName);
+
+    if (!adapter) {
+        console.error(`Unknown source: ${sourceName}. Available sources:`);
+        ADAPTERS.forEach(a => console.error(`  ${a.name.padEnd(10)} ${a.description}`));
+        process.exit(1);
+    }
 
     try {
-        const response = await fetch(url);
-        if (!response.ok) {
-            throw new Error(`Failed to fetch data: ${response.statusText}`);
-        }
+        const courses = await adapter.load({
+            input: getCliOption('input'),
+            cached: process.argv.includes('--cached')
+        });
 
-        const data = await response.json() as any[];
+        // An empty response is far more likely a broken source than an empty calendar
+        if (courses.length === 0) {
+            throw new Error(`the ${adapter.name} source returned no courses; refusing to mark every course removed`);
+        }
 
-        // Ensure the output directories exist
-        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
         fs.mkdirSync(coursesDir, { recursive: true });
 
-        // Write the data to the file
-        fs.writeFileSync(outputPath, JSON.stringify(data, null, 2), 'utf-8');
-        console.log('Data successfully fetched and stored in:', outputPath);
-
-        // Create individual course files
-        let courseCount = 0;
-        for (const course of data) {
-            // Extract course code (adjust based on actual data structure)
-            const courseCode = course.course || course.code || course.id;
-            if (!courseCode) continue;
-
-            const courseSaveFile: CourseSaveFile = {
-                schemaVersion: SCHEMA_VERSION,
-                course: courseCode,
-                originalPrerequisite: course.prer ? course.prer : null,
-                originalCorequisite: course.crer ? course.crer : null,
-                status: (!course.prer && !course.crer) ? 'parsed' : 'unparsed',
-                lastUpdated: new Date().toISOString()
-            };
-
-            // Remove undefined properties
-            Object.keys(courseSaveFile).forEach(key => {
-                if (courseSaveFile[key as keyof CourseSaveFile] === undefined) {
-                    delete courseSaveFile[key as keyof CourseSaveFile];
-                }
-            });
-
-            // Clean course code for filename (replace spaces and special chars)
-            const safeFileName = courseCode.replace(/[^a-zA-Z0-9]/g, '_');
-            const coursePath = path.join(coursesDir, `${safeFileName}.json`);
-            
-            fs.writeFileSync(coursePath, JSON.stringify(courseSaveFile, null, 2), 'utf-8');
-            courseCount++;
-        }
-        
-        console.log(`Created ${courseCount} individual course files in:`, coursesDir);
+        const repository = createCourseRepository({ dir: coursesDir });
+        const report = mergeCourses(repository, courses, adapter.partial);
+
+        printReport(report);
+        console.log(`Course files are in:`, coursesDir);
     } catch (error) {
         if (error instanceof Error) {
             console.error('Error fetching or storing data:', error.message);
@@ -67,4 +76,119 @@ async function fetchAndStoreData() {
     }
 }
 
-fetchAndStoreData();
\ No newline at end of file
+/**
+ * Merges freshly fetched upstream courses into the existing course files
+ */
+function mergeCourses(repository: CourseRepository, courses: CourseSaveFile[], partial: boolean): ChangeReport {
+    const report: ChangeReport = { added: [], changed: [], removed: [], restored: [], metadataUpdated: 0, unchanged: 0 };
+    const seen = new Set<string>();
+    const departments = new Set<string>();
+    const now = new Date().toISOString();
+
+    for (const course of courses) {
+        const prerequisite = course.originalPrerequisite;
+        const corequisite = course.originalCorequisite;
+        const code = normalizeCourseCode(course.course);
+        const stored = repository.get(code);
+        seen.add(code);
+        departments.add(code.split(' ')[0]!);
+
+        if (!stored) {
+            applyCreditExclusions(course);
+            repository.save(course);
+            report.added.push(course.course);
+            continue;
+        }
+
+        const existing = mergeMetadata(stored, course);
+        const textChanged = existing.originalPrerequisite !== prerequisite || existing.originalCorequisite !== corequisite;
+        if (textChanged) resetCourse(existing, prerequisite, corequisite);
+
+        const exclusionsChanged = applyCreditExclusions(existing);
+        const metadataChanged = existing !== stored || exclusionsChanged;
+
+        if (textChanged) {
+            existing.lastUpdated = now;
+            repository.save(existing);
+            report.changed.push(existing.course);
+        } else if (existing.status === 'removed') {
+            // Back upstream with the same text, so whatever it was before still applies
+            existing.status = existing.removedFrom || (existing.parsedRequirements || (!prerequisite && !corequisite) ? 'parsed' : 'unparsed');
+            delete existing.removedFrom;
+            existing.lastUpdated = now;
+            repository.save(existing);
+            report.restored.push(existing.course);
+        } else if (metadataChanged) {
+            existing.lastUpdated = now;
+            repository.save(existing);
+            report.metadataUpdated++;
+        } else {
+            report.unchanged++;
+        }
+    }
+
+    for (const existing of repository.loadAll()) {
+        const code = normalizeCourseCode(existing.course);
+        if (seen.has(code) || existing.status === 'removed') continue;
+        if (partial && !departments.has(code.split(' ')[0]!)) continue;
+
+        existing.removedFrom = existing.status;
+        existing.status = 'removed';
+        existing.lastUpdated = now;
+        repository.save(existing);
+        report.removed.push(existing.course);
+    }
+
+    return report;
+}
+
+// Returns the course with the metadata from the source, keeping metadata fields first,
+// or the same object when nothing differs
+function mergeMetadata(existing: CourseSaveFile, fresh: CourseSaveFile): CourseSaveFile {
+    const metadata = pickMetadata(fresh);
+    if (METADATA_FIELDS.every(field => metadata[field] === undefined || metadata[field] === existing[field])) {
+        return existing;
+    }
+
+    const { schemaVersion, course, ...rest } = existing;
+    METADATA_FIELDS.forEach(field => delete rest[field]);
+    return { schemaVersion, course, ...pickMetadata({ ...pickMetadata(existing), ...metadata }), ...rest };
+}
+
+// Replace a course's text and drop everything derived from the old text
+function resetCourse(courseData: CourseSaveFile, prerequisite: string | null, corequisite: string | null) {
+    courseData.originalPrerequisite = prerequisite;
+    courseData.originalCorequisite = corequisite;
+    courseData.status = (!prerequisite && !corequisite) ? 'parsed' : 'unparsed';
+    delete courseData.removedFrom;
+    delete courseData.parsedRequirements;
+    delete courseData.blacklistReason;
+    delete courseData.errorMessage;
+    delete courseData.reviewNotes;
+    delete courseData.attempts;
+    delete courseData.repairOutcome;
+}
+
+function printReport(report: ChangeReport) {
+    console.log('\n📋 CHANGE REPORT:');
+    console.log(`  Unchanged: ${report.unchanged}`);
+    console.log(`  📝 Metadata updated: ${report.metadataUpdated}`);
+
+    const sections: Array<[string, string[]]> = [
+        ['🆕 Added', report.added],
+        ['✏️  Text changed (reset to unparsed)', report.changed],
+        ['🗑️  Removed upstream', report.removed],
+        ['♻️  Restored', report.restored]
+    ];
+
+    for (const [title, courses] of sections) {
+        console.log(`  ${title}: ${courses.length}`);
+        if (courses.length === 0) continue;
+
+        const listed = courses.slice(0, REPORT_LIMIT).join(', ');
+        const more = courses.length > REPORT_LIMIT ? ` ... and ${courses.length - REPORT_LIMIT} more` : '';
+        console.log(`    ${listed}${more}`);
+    }
+}
+
+fetchAndStoreData();
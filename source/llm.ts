@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { getCliOption } from './utilities';
+
+/**
+ * LLM Providers:
+ * - openrouter: OpenRouter's hosted models (needs OPENROUTER_API_KEY)
+ * - openai: any OpenAI-compatible chat completions endpoint, e.g. a local
+ *   llama.cpp or Ollama server
+ * - replay: serves responses recorded on disk, so the parse pipeline can run
+ *   without network access
+ *
+ * Any provider can be wrapped with `--record` to save its responses as
+ * fixtures for the replay provider.
+ */
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface LLMResponse {
+    content: string;
+    model: string;
+    usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+    name: string;
+    model: string;
+    complete(messages: ChatMessage[]): Promise<LLMResponse>;
+}
+
+export class LLMError extends Error {
+    status?: number; // HTTP status when the error came from the endpoint
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'LLMError';
+        this.status = status;
+    }
+}
+
+interface RecordedResponse {
+    messages: ChatMessage[];
+    response: LLMResponse;
+}
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1';
+const DEFAULT_OPENROUTER_MODEL = 'google/gemini-flash-1.5';
+const DEFAULT_OPENAI_URL = 'http://localhost:8080/v1';
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'data', 'fixtures');
+
+/**
+ * Creates a provider for any endpoint implementing the OpenAI chat completions API
+ */
+export function createOpenAICompatibleProvider(options: {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    name?: string;
+    headers?: Record<string, string>;
+    extraBody?: Record<string, unknown>;
+}): LLMProvider {
+    const url = `${options.baseUrl.replace(/\/$/, '')}/chat/completions`;
+    const name = options.name || 'openai';
+
+    return {
+        name,
+        model: options.model,
+        async complete(messages: ChatMessage[]): Promise<LLMResponse> {
+            const headers: Record<string, string> = {
+                'Content-Type': 'application/json',
+                ...options.headers
+            };
+            if (options.apiKey) {
+                headers['Authorization'] = `Bearer ${options.apiKey}`;
+            }
+
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify({
+                        model: options.model,
+                        messages,
+                        ...options.extraBody
+                    })
+                });
+            } catch (error) {
+                throw new LLMError(`Request to ${url} failed: ${error instanceof Error ? error.message : error}`);
+            }
+
+            if (!response.ok) {
+                throw new LLMError(`${name} API error: ${response.status} ${response.statusText}`, response.status);
+            }
+
+            // A body that isn't JSON usually comes from a proxy in front of the model, so
+            // it's reported like a bad gateway and retried
+            let result: any;
+            try {
+                result = await response.json();
+            } catch (error) {
+                throw new LLMError(`${name} API returned a response that is not JSON: ${error instanceof Error ? error.message : error}`, 502);
+            }
+
+            const content = result?.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') {
+                throw new LLMError(`${name} API returned no message content`);
+            }
+
+            return {
+                content,
+                model: result.model || options.model,
+                usage: result.usage ? {
+                    promptTokens: result.usage.prompt_tokens || 0,
+                    completionTokens: result.usage.completion_tokens || 0
+                } : undefined
+            };
+        }
+    };
+}
+
+/**
+ * Creates a provider for OpenRouter
+ */
+export function createOpenRouterProvider(options: { apiKey: string; model?: string }): LLMProvider {
+    return createOpenAICompatibleProvider({
+        name: 'openrouter',
+        baseUrl: OPENROUTER_URL,
+        model: options.model || DEFAULT_OPENROUTER_MODEL,
+        apiKey: options.apiKey,
+        headers: {
+            'HTTP-Referer': 'https://github.com/ubc-parse-prerequisites',
+            'X-Title': 'UBC Prerequisites Parser'
+        },
+        extraBody: {
+            config: {
+                thinkingConfig: {
+                    thinkingBudget: 10000,
+                }
+            }
+        }
+    });
+}
+
+/**
+ * Creates a provider that serves recorded responses from a fixtures directory.
+ * Responses are looked up by a hash of the conversation.
+ */
+export function createReplayProvider(options: { fixturesDir: string; model?: string }): LLMProvider {
+    return {
+        name: 'replay',
+        model: options.model || 'replay',
+        async complete(messages: ChatMessage[]): Promise<LLMResponse> {
+            const fixturePath = path.join(options.fixturesDir, `${hashMessages(messages)}.json`);
+            if (!fs.existsSync(fixturePath)) {
+                throw new LLMError(`No recorded response for this prompt: ${fixturePath}`);
+            }
+
+            const recorded: RecordedResponse = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+            return recorded.response;
+        }
+    };
+}
+
+/**
+ * Wraps a provider so every response is saved as a fixture for the replay provider
+ */
+export function createRecordingProvider(provider: LLMProvider, fixturesDir: string): LLMProvider {
+    return {
+        name: provider.name,
+        model: provider.model,
+        async complete(messages: ChatMessage[]): Promise<LLMResponse> {
+            const response = await provider.complete(messages);
+            const recorded: RecordedResponse = { messages, response };
+
+            fs.mkdirSync(fixturesDir, { recursive: true });
+            fs.writeFileSync(
+                path.join(fixturesDir, `${hashMessages(messages)}.json`),
+                JSON.stringify(recorded, null, 2),
+                'utf-8'
+            );
+            return response;
+        }
+    };
+}
+
+/**
+ * Creates the provider selected by command line flags, falling back to environment variables:
+ *   --provider / LLM_PROVIDER      openrouter (default), openai or replay
+ *   --model / LLM_MODEL            model name
+ *   --base-url / LLM_BASE_URL      endpoint for the openai provider
+ *   --fixtures / LLM_FIXTURES_DIR  fixtures directory for replay and --record
+ *   --record                       save every response as a fixture
+ */
+export function createProviderFromConfig(args: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): LLMProvider {
+    const providerName = getCliOption('provider', args) || env.LLM_PROVIDER || 'openrouter';
+    const model = getCliOption('model', args) || env.LLM_MODEL;
+    const fixturesDir = getCliOption('fixtures', args) || env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+    let provider: LLMProvider;
+    switch (providerName) {
+        case 'openrouter':
+            if (!env.OPENROUTER_API_KEY) {
+                throw new LLMError('OPENROUTER_API_KEY not found in environment variables');
+            }
+            provider = createOpenRouterProvider({ apiKey: env.OPENROUTER_API_KEY, model });
+            break;
+        case 'openai':
+            provider = createOpenAICompatibleProvider({
+                baseUrl: getCliOption('base-url', args) || env.LLM_BASE_URL || DEFAULT_OPENAI_URL,
+                model: model || 'default',
+                apiKey: env.LLM_API_KEY
+            });
+            break;
+        case 'replay':
+            provider = createReplayProvider({ fixturesDir, model });
+            break;
+        default:
+            throw new LLMError(`Unknown LLM provider: ${providerName} (expected openrouter, openai or replay)`);
+    }
+
+    if (args.includes('--record') && providerName !== 'replay') {
+        provider = createRecordingProvider(provider, fixturesDir);
+    }
+
+    return provider;
+}
+
+/**
+ * Short stable hash of a conversation, used to name fixtures and in parse history
+ */
+export function hashMessages(messages: ChatMessage[]): string {
+    return createHash('sha256').update(JSON.stringify(messages)).digest('hex').slice(0, 16);
+}
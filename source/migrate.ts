@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { SCHEMA_VERSION } from './types';
+import type { CourseSaveFile } from './types';
+import { MIGRATIONS, upgradeCourseFile } from './migrations';
+import { createCourseRepository, DEFAULT_COURSES_DIR } from './repository';
+import { getCliOption } from './utilities';
+
+/**
+ * Upgrades every course file to the current schema version using the
+ * migrations registered in migrations.ts.
+ *
+ * Options:
+ *   --dry-run   show what would change (with a diff of each file) without writing
+ *   --diff      also print the diff of each file on a real run
+ *   --dir path  migrate another directory of course files, e.g. the replay fixtures
+ *
+ * Upgraded files are saved through the course repository, so each write is atomic.
+ */
+
+const DRY_RUN = process.argv.includes('--dry-run');
+const SHOW_DIFF = DRY_RUN || process.argv.includes('--diff');
+
+async function main() {
+    const coursesDir = getCliOption('dir') || DEFAULT_COURSES_DIR;
+
+    if (!fs.existsSync(coursesDir)) {
+        console.error(`Courses directory not found: ${coursesDir}`);
+        process.exit(1);
+    }
+
+    const repository = createCourseRepository({ dir: coursesDir });
+    const files = fs.readdirSync(coursesDir).filter(file => file.endsWith('.json'));
+    console.log(`Migrating ${files.length} course files to ${SCHEMA_VERSION}${DRY_RUN ? ' (dry run)' : ''}...\n`);
+
+    let migrated = 0;
+    let changed = 0;
+    let current = 0;
+    let failed = 0;
+    const stepCounts: Record<string, number> = {};
+
+    for (const file of files) {
+        const filePath = path.join(coursesDir, file);
+
+        try {
+            const before = fs.readFileSync(filePath, 'utf-8');
+            const courseData: CourseSaveFile = JSON.parse(before);
+
+            if (courseData.schemaVersion === SCHEMA_VERSION) {
+                current++;
+                continue;
+            }
+
+            const { applied, notes } = upgradeCourseFile(courseData);
+            const after = JSON.stringify(courseData, null, 2);
+
+            applied.forEach(migration => {
+                const step = `${migration.from} → ${migration.to}`;
+                stepCounts[step] = (stepCounts[step] || 0) + 1;
+            });
+            notes.forEach(note => console.log(`🔄 ${courseData.course}: ${note}`));
+
+            // Count files whose content changed beyond the version bump
+            const diff = diffLines(before, after).filter(line => !line.includes('"schemaVersion"'));
+            if (diff.length > 0) {
+                changed++;
+                if (SHOW_DIFF) {
+                    console.log(`--- ${file}`);
+                    diff.forEach(line => console.log(line));
+                }
+            }
+
+            if (!DRY_RUN) {
+                repository.save(courseData);
+            }
+            migrated++;
+        } catch (error) {
+            console.error(`❌ ${file}: ${error instanceof Error ? error.message : error}`);
+            failed++;
+        }
+    }
+
+    console.log(`\nMigration ${DRY_RUN ? 'dry run ' : ''}complete:`);
+    console.log(`  ${DRY_RUN ? 'Would migrate' : 'Migrated'}: ${migrated} (${changed} with changes beyond the version)`);
+    Object.entries(stepCounts).forEach(([step, count]) => {
+        const migration = MIGRATIONS.find(m => `${m.from} → ${m.to}` === step);
+        console.log(`    ${step} (${migration?.description}): ${count}`);
+    });
+    console.log(`  Already current: ${current}`);
+    console.log(`  Failed: ${failed}`);
+
+    if (failed > 0) process.exit(1);
+}
+
+// Line diff of two texts using their longest common subsequence, returning only
+// the removed ("- ") and added ("+ ") lines
+function diffLines(before: string, after: string): string[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i]![j] = a[i] === b[j]
+                ? lengths[i + 1]![j + 1]! + 1
+                : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+        }
+    }
+
+    const result: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            i++;
+            j++;
+        } else if (j >= b.length || (i < a.length && lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+            result.push(`- ${a[i++]}`);
+        } else {
+            result.push(`+ ${b[j++]}`);
+        }
+    }
+
+    return result;
+}
+
+main().catch(error => {
+    console.error('Error migrating courses:', error);
+    process.exit(1);
+});
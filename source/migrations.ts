@@ -0,0 +1,163 @@
+import fs from 'fs';
+import { SCHEMA_VERSION } from './types';
+import type { CourseSaveFile, CourseParsedRequirements, Requirements } from './types';
+
+/**
+ * Schema Migrations:
+ * Every change to CourseSaveFile or the requirement types bumps SCHEMA_VERSION
+ * and registers a migration from the previous version here. Files are upgraded
+ * one step at a time until they reach the current version.
+ *
+ * - UBCv0.1 → UBCv0.2: TWO_OF groups become N_OF groups with count 2. Courses
+ *   asking for "three of", "four of", ... could not be represented before and
+ *   were squeezed into other shapes, so they are reset to unparsed to be parsed again.
+ * - UBCv0.2 → UBCv0.3: course files gained optional catalogue metadata, parse history,
+ *   equivalents and exclusions, the needs_review and removed statuses and removedFrom.
+ *   Equivalents and exclusions were first kept on the parsed requirements, so they
+ *   move to the course file, and parsed requirements that only held them are dropped.
+ */
+
+export interface Migration {
+    from: string;
+    to: string;
+    description: string;
+    // Upgrades the file in place and returns notes about anything beyond a mechanical rewrite
+    migrate(courseData: CourseSaveFile): string[];
+}
+
+export class SchemaVersionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SchemaVersionError';
+    }
+}
+
+const COUNT_PATTERN = /\b(three|four|five|six|seven|eight|nine|ten) of\b/i;
+
+export const MIGRATIONS: Migration[] = [
+    {
+        from: 'UBCv0.1',
+        to: 'UBCv0.2',
+        description: 'Replace TWO_OF groups with N_OF groups',
+        migrate(courseData) {
+            const parsed = courseData.parsedRequirements;
+            if (!parsed) return [];
+
+            if (parsed.prerequisites) parsed.prerequisites = migrateTwoOf(parsed.prerequisites);
+            if (parsed.corequisites) parsed.corequisites = migrateTwoOf(parsed.corequisites);
+            if (parsed.recommendedPrerequisites) parsed.recommendedPrerequisites = migrateTwoOf(parsed.recommendedPrerequisites);
+            if (parsed.recommendedCorequisites) parsed.recommendedCorequisites = migrateTwoOf(parsed.recommendedCorequisites);
+
+            const text = `${courseData.originalPrerequisite || ''} ${courseData.originalCorequisite || ''}`;
+            const requirements = [parsed.prerequisites, parsed.corequisites, parsed.recommendedPrerequisites, parsed.recommendedCorequisites]
+                .filter((req): req is Requirements => !!req);
+
+            if (COUNT_PATTERN.test(text) && !requirements.some(req => hasLargeCountGroup(req))) {
+                courseData.status = 'unparsed';
+                delete courseData.parsedRequirements;
+                delete courseData.reviewNotes;
+                delete courseData.attempts;
+                delete courseData.repairOutcome;
+                courseData.lastUpdated = new Date().toISOString();
+                return ['reset to unparsed so its "N of" requirement can be parsed again'];
+            }
+
+            return [];
+        }
+    },
+    {
+        from: 'UBCv0.2',
+        to: 'UBCv0.3',
+        description: 'Move equivalents and exclusions to the course file',
+        migrate(courseData) {
+            const parsed = courseData.parsedRequirements as CourseParsedRequirements & { equivalents?: string[]; exclusions?: string[] } | undefined;
+            if (!parsed) return [];
+
+            const { equivalents, exclusions, ...requirements } = parsed;
+            if (equivalents) courseData.equivalents = equivalents;
+            if (exclusions) courseData.exclusions = exclusions;
+
+            const hasText = !!(courseData.originalPrerequisite || courseData.originalCorequisite);
+            if (!hasText && Object.keys(requirements).every(key => key === 'department' || key === 'code')) {
+                delete courseData.parsedRequirements;
+            } else {
+                courseData.parsedRequirements = requirements;
+            }
+
+            return [];
+        }
+    }
+];
+
+/**
+ * Returns the migrations needed to bring a file from `version` to SCHEMA_VERSION, in order.
+ * Throws SchemaVersionError when there is no path, e.g. for files written by a newer version.
+ */
+export function getMigrationPath(version: string): Migration[] {
+    const steps: Migration[] = [];
+    let current = version;
+
+    while (current !== SCHEMA_VERSION) {
+        const next = MIGRATIONS.find(migration => migration.from === current);
+        if (!next) {
+            throw new SchemaVersionError(`No migration from schema version ${current} to ${SCHEMA_VERSION}`);
+        }
+        steps.push(next);
+        current = next.to;
+    }
+
+    return steps;
+}
+
+/**
+ * Upgrades a course file in place to SCHEMA_VERSION and returns the migrations
+ * applied along with their notes
+ */
+export function upgradeCourseFile(courseData: CourseSaveFile): { applied: Migration[]; notes: string[] } {
+    const applied = getMigrationPath(courseData.schemaVersion);
+    const notes: string[] = [];
+
+    for (const migration of applied) {
+        notes.push(...migration.migrate(courseData));
+        courseData.schemaVersion = migration.to;
+    }
+
+    return { applied, notes };
+}
+
+/**
+ * Reads a course file, upgrading it in memory if it was saved with an older schema version.
+ * With `upgrade: false` outdated files are refused with a SchemaVersionError instead.
+ */
+export function loadCourseFile(filePath: string, options: { upgrade?: boolean } = {}): { courseData: CourseSaveFile; upgraded: boolean } {
+    const courseData: CourseSaveFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+    if (courseData.schemaVersion === SCHEMA_VERSION) {
+        return { courseData, upgraded: false };
+    }
+
+    if (options.upgrade === false) {
+        throw new SchemaVersionError(`${courseData.course} uses schema version ${courseData.schemaVersion}, expected ${SCHEMA_VERSION}; run \`bun run migrate\``);
+    }
+
+    upgradeCourseFile(courseData);
+    return { courseData, upgraded: true };
+}
+
+/**
+ * Rewrites every TWO_OF group in a requirement tree as an N_OF group with count 2
+ */
+function migrateTwoOf(req: Requirements): Requirements {
+    if (req.type !== 'group') return req;
+
+    const children = req.children.map(child => migrateTwoOf(child));
+    if ((req.logic as string) === 'TWO_OF') {
+        return { type: 'group', logic: 'N_OF', count: 2, children };
+    }
+    return { ...req, children };
+}
+
+function hasLargeCountGroup(req: Requirements): boolean {
+    if (req.type !== 'group') return false;
+    return (req.logic === 'N_OF' && (req.count || 0) > 2) || req.children.some(child => hasLargeCountGroup(child));
+}
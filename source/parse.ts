@@ -1,148 +1,363 @@
 import fs from 'fs';
 import path from 'path';
+import readline from 'readline';
 import dotenv from 'dotenv';
-import type { CourseSaveFile, CourseParsedRequirements } from './types';
-import { validateParsedRequirements, prettyPrintCourseParsedRequirements } from './utilities';
+import type { CourseSaveFile, CourseParsedRequirements, ParseHistoryEntry } from './types';
+import { validateParsedRequirements, prettyPrintCourseParsedRequirements, getCliOption } from './utilities';
+import { parseWithRules } from './grammar';
+import { verifyParsedRequirements } from './verify';
+import { createProviderFromConfig, hashMessages } from './llm';
+import type { ChatMessage, LLMProvider, LLMUsage } from './llm';
+import { runPool, createRateLimiter, withBackoff, createCheckpoint, createProgressReporter } from './runner';
+import type { ProgressReporter } from './runner';
+import { openCourseRepository } from './repository';
 
 // Load environment variables
 dotenv.config();
 
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-if (!OPENROUTER_API_KEY) {
-    console.error('OPENROUTER_API_KEY not found in environment variables');
-    process.exit(1);
-}
+// Skip the local rule-based parser and send everything to the LLM
+const LLM_ONLY = process.argv.includes('--llm-only');
 
-async function parseAllCourses() {
-    const coursesDir = path.join(__dirname, 'data', 'courses');
+// Print every course's text and parse instead of only the live summary
+const VERBOSE = process.argv.includes('--verbose');
+
+// Discard the checkpoint of an interrupted run and start over
+const FRESH = process.argv.includes('--fresh');
+
+// Review failed parses by hand. Defaults to on only when a person can answer on stdin,
+// so unattended and CI runs never block waiting for input
+const INTERACTIVE = process.argv.includes('--interactive')
+    || (!process.argv.includes('--non-interactive') && Boolean(process.stdin.isTTY));
+
+// How many times the LLM may be asked to repair an answer that fails validation
+const VALIDATION_RETRIES = integerOption('validation-retries', 2, 0);
+
+const CONCURRENCY = integerOption('concurrency', 4, 1);
+// 0 turns a limit off
+const REQUESTS_PER_MINUTE = integerOption('rpm', 60, 0);
+const TOKENS_PER_MINUTE = integerOption('tpm', 0, 0);
+const MAX_RETRIES = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+
+// Stop the run when the provider fails this many courses in a row
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+// USD per million tokens, defaults are OpenRouter's price for google/gemini-flash-1.5
+const PROMPT_PRICE = parseFloat(getCliOption('price-prompt') || process.env.LLM_PRICE_PROMPT || '0.075');
+const COMPLETION_PRICE = parseFloat(getCliOption('price-completion') || process.env.LLM_PRICE_COMPLETION || '0.3');
+
+// Parse the course files in another directory instead of data/courses, e.g. the replay fixtures
+const COURSES_DIR = getCliOption('dir');
+
+// A run over another directory keeps its checkpoint beside that directory
+const CHECKPOINT_PATH = COURSES_DIR
+    ? `${path.resolve(COURSES_DIR)}-checkpoint.json`
+    : path.join(__dirname, 'data', 'parse-checkpoint.json');
 
-    if (!fs.existsSync(coursesDir)) {
-        console.error(`Courses directory not found: ${coursesDir}`);
+const rateLimiter = createRateLimiter({ requestsPerMinute: REQUESTS_PER_MINUTE, tokensPerMinute: TOKENS_PER_MINUTE });
+const repository = openCourseRepository({ dir: COURSES_DIR });
+
+type CourseOutcome = 'parsed' | 'parsed locally' | 'needs review' | 'blacklisted' | 'error' | 'skipped';
+
+async function parseAllCourses() {
+    let courses: CourseSaveFile[];
+    try {
+        courses = repository.loadAll();
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
         process.exit(1);
     }
 
-    const files = fs.readdirSync(coursesDir).filter(file => file.endsWith('.json'));
-    console.log(`Found ${files.length} course files to process`);
+    console.log(`Found ${courses.length} course files to process`);
+    console.log(INTERACTIVE ? 'Interactive mode: failed parses will be shown for review' : 'Non-interactive mode: failed parses are recorded as errors');
 
     // Read the type system documentation
     const typesDoc = fs.readFileSync(path.join(__dirname, 'types.md'), 'utf-8');
 
-    let processed = 0;
-    let parsed = 0;
-    let blacklisted = 0;
-    let errored = 0;
+    const checkpoint = createCheckpoint(CHECKPOINT_PATH);
+    if (FRESH) {
+        checkpoint.clear();
+    } else if (checkpoint.size() > 0) {
+        console.log(`Resuming interrupted run: ${checkpoint.size()} courses already done`);
+    }
 
-    for (const file of files) {
-        const filePath = path.join(coursesDir, file);
-        console.log(`\n⚙️  Processing ${file}`);
+    // Only queue courses that still need work, so the progress summary and ETA are meaningful
+    const pending = courses.filter(courseData =>
+        (courseData.status === 'unparsed' || courseData.status === 'error') && !checkpoint.has(courseData.course)
+    );
+    console.log(`${pending.length} courses need parsing`);
 
-        try {
-            // Step 1: Read and check status
-            const courseData: CourseSaveFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const progress = createProgressReporter(pending.length);
+    let consecutiveFailures = 0;
+    let aborted = false;
 
-            if (courseData.status === 'error') {
-                console.log(`  retrying. previously errored`);
-            } else if (courseData.status !== 'unparsed') {
-                console.log(`  ⏭️  Skipping because status is ${courseData.status}`);
-                continue;
+    await runPool(pending, CONCURRENCY, async (courseData, stop) => {
+        try {
+            const { outcome, cost } = await parseCourse(courseData, typesDoc, progress);
+            checkpoint.markDone(courseData.course);
+            consecutiveFailures = 0;
+            progress.complete(outcome, cost);
+        } catch (error) {
+            // The course file is left untouched and not checkpointed, so the next run retries it
+            progress.log(`❌ Error processing ${courseData.course}: ${error instanceof Error ? error.message : error}`);
+            progress.complete('failed');
+
+            if (++consecutiveFailures >= MAX_CONSECUTIVE_FAILURES && !aborted) {
+                progress.log(`🛑 ${MAX_CONSECUTIVE_FAILURES} failures in a row, stopping`);
+                aborted = true;
+                stop();
             }
+        }
+    });
 
+    progress.finish();
 
-            // Step 2: Check if prereq and coreq are both null
-            if (!courseData.originalPrerequisite && !courseData.originalCorequisite) {
-                console.log(`  ✅ ${file} - No prerequisites or corequisites, marking as parsed`);
-                courseData.status = 'parsed';
-                courseData.lastUpdated = new Date().toISOString();
-                fs.writeFileSync(filePath, JSON.stringify(courseData, null, 2), 'utf-8');
-                parsed++;
-                processed++;
-                continue;
-            }
+    if (aborted) {
+        console.error(`Run stopped early. Rerun to resume from ${CHECKPOINT_PATH}`);
+        process.exit(1);
+    }
 
-            // Print original prerequisites and corequisites
-            if (courseData.originalPrerequisite !== null) {
-                console.log(`  📜 Prerequisites: ${courseData.originalPrerequisite || 'None'}`);
-            }
-            if (courseData.originalCorequisite !== null) {
-                console.log(`  📜 Corequisites: ${courseData.originalCorequisite || 'None'}`);
-            }
+    checkpoint.clear();
+}
 
-            console.log('  ⏳ Asking LLM to parse requirements...');
-
-            // Step 3: Ask LLM to parse the requirements
-            const llmResult = await callLLM(courseData, typesDoc);
-
-            if (llmResult.isError) {
-                // Step 4: Set status to blacklisted
-                console.log(`  🚫 ${file} - Blacklisted`);
-                console.log(llmResult)
-                courseData.status = 'blacklisted';
-                courseData.blacklistReason = llmResult.errorMessage;
-                courseData.lastUpdated = new Date().toISOString();
-                fs.writeFileSync(filePath, JSON.stringify(courseData, null, 2), 'utf-8');
-                blacklisted++;
-                processed++;
-                continue;
-            }
+/**
+ * Parses a single course, saves it and reports what happened to it
+ */
+async function parseCourse(courseData: CourseSaveFile, typesDoc: string, progress: ProgressReporter): Promise<{ outcome: CourseOutcome; cost: number }> {
+    const course = courseData.course;
+    const log = (...args: unknown[]) => { if (VERBOSE) progress.log(...args); };
+
+    log(`\n⚙️  Processing ${course}`);
+
+    // Step 1: Check status
+    if (courseData.status === 'error') {
+        log(`  retrying. previously errored`);
+    } else if (courseData.status !== 'unparsed') {
+        log(`  ⏭️  Skipping because status is ${courseData.status}`);
+        return { outcome: 'skipped', cost: 0 };
+    }
 
-            // Step 5: Validate the JSON schema
-            console.log(`  📝 Parsed requirements:\n`);
-            console.log(prettyPrintCourseParsedRequirements(llmResult.parsedRequirements!, 1));
-            console.log()
-            // console.log(`  ${file} - Raw JSON:`);
-            // console.log(JSON.stringify(llmResult.parsedRequirements, null, 2));
+    // Step 2: Check if prereq and coreq are both null
+    if (!courseData.originalPrerequisite && !courseData.originalCorequisite) {
+        log(`  ✅ ${course} - No prerequisites or corequisites, marking as parsed`);
+        courseData.status = 'parsed';
+        courseData.lastUpdated = new Date().toISOString();
+        repository.save(courseData);
+        return { outcome: 'parsed', cost: 0 };
+    }
 
-            const validation = validateParsedRequirements(llmResult.parsedRequirements);
+    // Print original prerequisites and corequisites
+    if (courseData.originalPrerequisite !== null) {
+        log(`  📜 Prerequisites: ${courseData.originalPrerequisite || 'None'}`);
+    }
+    if (courseData.originalCorequisite !== null) {
+        log(`  📜 Corequisites: ${courseData.originalCorequisite || 'None'}`);
+    }
 
-            if (!validation.isValid) {
-                console.log(`  ❌ Schema validation failed: ${validation.error}`);
-                console.log(` JSON: ${JSON.stringify(llmResult.parsedRequirements, null, 2)}`);
-                courseData.status = 'error';
-                courseData.errorMessage = validation.error;
-                courseData.lastUpdated = new Date().toISOString();
-                fs.writeFileSync(filePath, JSON.stringify(courseData, null, 2), 'utf-8');
-                errored++;
-                processed++;
+    // Step 3: Try the local rule-based parser first, falling back to the LLM if its
+    // result doesn't account for everything in the text
+    const ruleResult = LLM_ONLY ? null : parseWithRules(courseData);
+
+    if (ruleResult && validateParsedRequirements(ruleResult).isValid && verifyParsedRequirements(courseData, ruleResult).length === 0) {
+        log(`  🧮 Parsed locally:\n`);
+        log(prettyPrintCourseParsedRequirements(ruleResult, 1));
+        log(`\n  ✅ ${course} - Successfully parsed`);
+        courseData.status = 'parsed';
+        courseData.parsedRequirements = ruleResult;
+        delete courseData.errorMessage;
+        delete courseData.attempts;
+        delete courseData.repairOutcome;
+        courseData.lastUpdated = new Date().toISOString();
+        addHistory(courseData, { timestamp: courseData.lastUpdated, model: 'rules', outcome: 'parsed' });
+        repository.save(courseData);
+        return { outcome: 'parsed locally', cost: 0 };
+    }
+
+    log('  ⏳ Asking LLM to parse requirements...');
+
+    // Step 4: Ask LLM to parse the requirements. When the answer fails validation the
+    // conversation continues with the error, so the model can repair its own answer
+    let cost = 0;
+    const messages: ChatMessage[] = [{ role: 'user', content: buildPrompt(courseData, typesDoc) }];
+
+    for (let attempt = 1; ; attempt++) {
+        const llmResult = await callLLM(messages, courseData, progress);
+        cost += llmResult.cost;
+
+        courseData.attempts = attempt;
+        courseData.repairOutcome = attempt === 1 ? 'not_needed' : 'repaired';
+
+        // Every answer goes into the course's history, and into the parse_attempts table with --db
+        const promptHash = hashMessages(messages);
+        const recordAttempt = (outcome: ParseHistoryEntry['outcome'], validationError?: string) => {
+            const timestamp = new Date().toISOString();
+            addHistory(courseData, {
+                timestamp,
+                model: llmResult.model,
+                promptHash,
+                rawContent: llmResult.rawContent,
+                outcome,
+                ...validationError ? { validationError } : {}
+            });
+            repository.recordAttempt({
+                course,
+                attempt,
+                model: llmResult.model,
+                prompt: messages[messages.length - 1]!.content,
+                rawResponse: llmResult.rawContent,
+                valid: outcome === 'parsed' || outcome === 'needs_review',
+                validationError,
+                timestamp
+            });
+        };
+
+        if (llmResult.isError) {
+            recordAttempt('blacklisted', `Declined to parse: ${llmResult.errorMessage}`);
+            // Step 5: Set status to blacklisted
+            progress.log(`🚫 ${course} - Blacklisted: ${llmResult.errorMessage}`);
+            courseData.status = 'blacklisted';
+            courseData.blacklistReason = llmResult.errorMessage;
+            if (attempt > 1) courseData.repairOutcome = 'failed';
+            courseData.lastUpdated = new Date().toISOString();
+            repository.save(courseData);
+            return { outcome: 'blacklisted', cost };
+        }
 
+        // Step 6: Validate the JSON schema
+        if (llmResult.parsedRequirements) {
+            log(`  📝 Parsed requirements:\n`);
+            log(prettyPrintCourseParsedRequirements(llmResult.parsedRequirements, 1));
+            log()
+        }
+        // log(`  ${course} - Raw JSON:`);
+        // log(JSON.stringify(llmResult.parsedRequirements, null, 2));
+
+        const validation = llmResult.responseError
+            ? { isValid: false, error: llmResult.responseError }
+            : validateParsedRequirements(llmResult.parsedRequirements);
+
+        if (!validation.isValid) {
+            recordAttempt('invalid', validation.error);
+            progress.log(`❌ ${course} - Schema validation failed (attempt ${attempt}): ${validation.error}`);
+
+            // Both modes share the repair budget, so a reviewer can't retry a course forever
+            const canRetry = attempt <= VALIDATION_RETRIES;
+            let retry: boolean;
+            if (INTERACTIVE) {
+                retry = await reviewFailure(courseData, llmResult, validation.error!, progress, canRetry);
+            } else {
+                log(` JSON: ${JSON.stringify(llmResult.parsedRequirements, null, 2)}`);
+                retry = canRetry;
+            }
 
-                console.log('Press Enter to continue...');
-                await new Promise(resolve => process.stdin.once('data', resolve));
+            if (retry) {
+                messages.push(
+                    { role: 'assistant', content: llmResult.rawContent },
+                    { role: 'user', content: buildRepairPrompt(validation.error!) }
+                );
                 continue;
             }
 
-            // Step 6: Save successful parse
-            console.log(`  ✅ ${file} - Successfully parsed`);
-            courseData.status = 'parsed';
-            courseData.parsedRequirements = llmResult.parsedRequirements;
+            courseData.status = 'error';
+            courseData.errorMessage = validation.error;
+            courseData.repairOutcome = 'failed';
             courseData.lastUpdated = new Date().toISOString();
-            fs.writeFileSync(filePath, JSON.stringify(courseData, null, 2), 'utf-8');
-            parsed++;
-            processed++;
-
-            // Wait for 2 seconds before processing the next file
-            // await new Promise(resolve => setTimeout(resolve, 2000));
+            repository.save(courseData);
+            return { outcome: 'error', cost };
+        }
 
-        } catch (error) {
-            console.error(`  ❌ Error processing ${file}:`, error);
-            process.exit(1);
+        // Step 7: Cross-check the parse against the original text
+        const issues = verifyParsedRequirements(courseData, llmResult.parsedRequirements!);
+        courseData.parsedRequirements = llmResult.parsedRequirements;
+        delete courseData.errorMessage;
+        courseData.lastUpdated = new Date().toISOString();
+
+        if (issues.length > 0) {
+            recordAttempt('needs_review', issues.join('; '));
+            progress.log(`🔎 ${course} - Needs review: ${issues.join('; ')}`);
+            courseData.status = 'needs_review';
+            courseData.reviewNotes = issues;
+            repository.save(courseData);
+            return { outcome: 'needs review', cost };
         }
+
+        // Step 8: Save successful parse
+        recordAttempt('parsed');
+        log(`  ✅ ${course} - Successfully parsed`);
+        courseData.status = 'parsed';
+        delete courseData.reviewNotes;
+        repository.save(courseData);
+        return { outcome: 'parsed', cost };
     }
+}
+
+function addHistory(courseData: CourseSaveFile, entry: ParseHistoryEntry) {
+    courseData.history = courseData.history || [];
+    courseData.history.push(entry);
+}
+
+let reviewQueue: Promise<unknown> = Promise.resolve();
+
+// Shows a failed parse to the user and, while repair attempts are left, asks whether
+// to retry it. Reviews are queued so parallel workers never prompt at the same time.
+function reviewFailure(courseData: CourseSaveFile, llmResult: LLMResult, error: string, progress: ProgressReporter, canRetry: boolean): Promise<boolean> {
+    const review = reviewQueue.then(async () => {
+        progress.log(`\n📜 ${courseData.course}`);
+        if (courseData.originalPrerequisite) progress.log(`  Prerequisites: ${courseData.originalPrerequisite}`);
+        if (courseData.originalCorequisite) progress.log(`  Corequisites: ${courseData.originalCorequisite}`);
+        progress.log(` JSON: ${JSON.stringify(llmResult.parsedRequirements, null, 2)}`);
+        progress.log(`  Error: ${error}`);
+
+        if (!canRetry) {
+            progress.log(`  No repair attempts left (--validation-retries ${VALIDATION_RETRIES}), recording as an error`);
+            return false;
+        }
+
+        const answer = await askUser('Press Enter to continue, or type "r" to ask the LLM to repair its answer: ');
+        return answer.trim().toLowerCase() === 'r';
+    });
+
+    reviewQueue = review.catch(() => undefined);
+    return review;
+}
 
-    console.log(`\nProcessing complete:`);
-    console.log(`  Processed: ${processed}`);
-    console.log(`  Parsed: ${parsed}`);
-    console.log(`  Blacklisted: ${blacklisted}`);
-    console.log(`  Errored: ${errored}`);
+function askUser(question: string): Promise<string> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    return new Promise(resolve => rl.question(question, answer => {
+        rl.close();
+        resolve(answer);
+    }));
 }
 
 interface LLMResult {
     isError: boolean;
     errorMessage?: string;
     parsedRequirements?: CourseParsedRequirements;
+    responseError?: string; // set when the response could not be read as JSON
+    rawContent: string; // the model's answer, sent back to it when asking for a repair
+    model: string;
+    cost: number; // estimated USD spent on this call
 }
 
-async function callLLM(courseData: CourseSaveFile, typesDoc: string): Promise<LLMResult> {
-    const prompt = `You are a system that parses UBC course prerequisites and corequisites into a structured JSON format.
+let llmProvider: LLMProvider | undefined;
+
+// The provider is only created once the LLM is actually needed, so runs that
+// only use the rule-based parser work without any credentials
+function getProvider(): LLMProvider {
+    if (!llmProvider) {
+        try {
+            llmProvider = createProviderFromConfig();
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+        console.log(`🤖 Using ${llmProvider.name} provider with model ${llmProvider.model}`);
+    }
+    return llmProvider;
+}
+
+function buildPrompt(courseData: CourseSaveFile, typesDoc: string): string {
+    return `You are a system that parses UBC course prerequisites and corequisites into a structured JSON format.
 
 COURSE: ${courseData.course}
 PREREQUISITES: ${courseData.originalPrerequisite || 'None'}
@@ -166,8 +381,8 @@ If NO: Return a JSON object explaining why:
 }
 
 Important notes:
-- Be very careful about logical grouping (ALL_OF vs ONE_OF vs TWO_OF)
-- For "two of" requirements, use TWO_OF logic with all courses as children
+- Be very careful about logical grouping (ALL_OF vs ONE_OF vs N_OF)
+- For "two of", "three of", etc. requirements, use N_OF logic with count set to the number needed and all courses as children
 - Use RequirementOther for high school courses, external requirements, AP credits, etc. - DO NOT blacklist these
 - Pay attention to grade requirements, concurrent enrollment, etc.
 - If something is unclear or ambiguous, return an error
@@ -176,73 +391,85 @@ Important notes:
 - If a requirement text says "recommended" or "suggested", put it in the recommended fields instead of the required fields
 - PREFER using RequirementOther over blacklisting - only blacklist if truly impossible to represent
 - You MUST follow the type system exactly as defined in the provided documentation.`;
+}
 
-    try {
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': 'https://github.com/ubc-parse-prerequisites',
-                'X-Title': 'UBC Prerequisites Parser'
-            },
-            body: JSON.stringify({
-                model: 'google/gemini-flash-1.5',
-                messages: [
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ],
-                config: {
-                    thinkingConfig: {
-                        thinkingBudget: 10000,
-                    }
-
-                }})
-        });
-
-        if (!response.ok) {
-            console.error(`OpenRouter API error: ${response.status} ${response.statusText}`);
-            process.exit(1);
-        }
+function buildRepairPrompt(error: string): string {
+    return `Your answer was rejected by the schema validator with this error:
+${error}
 
-        const result = await response.json() as any;
-        const content = result.choices[0].message.content;
+Return the complete corrected JSON object in the same format as before. Only change what is needed to fix the error.`;
+}
 
-        // Parse the JSON response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            console.error('No JSON found in LLM response');
-            console.log('Response content:', content);
-            process.exit(1);
-        }
+async function callLLM(messages: ChatMessage[], courseData: CourseSaveFile, progress: ProgressReporter): Promise<LLMResult> {
+    const provider = getProvider();
+    const promptText = messages.map(message => message.content).join('\n');
+
+    // Throws LLMError when the provider cannot be reached, after retrying rate limits and server errors
+    const response = await withBackoff(async () => {
+        await rateLimiter.acquire(estimateTokens(promptText));
+        return provider.complete(messages);
+    }, {
+        retries: MAX_RETRIES,
+        baseDelayMs: BASE_RETRY_DELAY_MS,
+        onRetry: (error, delayMs) => progress.log(`⏳ ${courseData.course}: ${error.message}, retrying in ${Math.round(delayMs / 1000)}s`)
+    });
+    const content = response.content;
+    const cost = estimateCost(response.usage || { promptTokens: estimateTokens(promptText), completionTokens: estimateTokens(content) });
+
+    // Parse the JSON response
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+        progress.log('Response content:', content);
+        return { isError: false, responseError: 'No JSON found in LLM response', rawContent: content, model: response.model, cost };
+    }
 
-        let parsedResponse;
-        try {
-            parsedResponse = JSON.parse(jsonMatch[0]);
-        } catch (error) {
-            console.error('Failed to parse JSON response:', error);
-            console.log('Response content that failed to parse:', content);
-            process.exit(1);
-        }
+    let parsedResponse;
+    try {
+        parsedResponse = JSON.parse(jsonMatch[0]);
+    } catch (error) {
+        progress.log('Response content that failed to parse:', content);
+        return { isError: false, responseError: `Failed to parse JSON response: ${error instanceof Error ? error.message : error}`, rawContent: content, model: response.model, cost };
+    }
 
-        if (parsedResponse.success) {
-            return {
-                isError: false,
-                parsedRequirements: parsedResponse.parsedRequirements
-            };
-        } else {
-            return {
-                isError: true,
-                errorMessage: parsedResponse.error
-            };
-        }
+    if (parsedResponse.success) {
+        return {
+            isError: false,
+            parsedRequirements: parsedResponse.parsedRequirements,
+            rawContent: content,
+            model: response.model,
+            cost
+        };
+    } else {
+        return {
+            isError: true,
+            errorMessage: parsedResponse.error,
+            rawContent: content,
+            model: response.model,
+            cost
+        };
+    }
+}
 
-    } catch (error) {
-        console.error('Error calling LLM:', error);
+// Rough token count used for rate limiting and when the provider reports no usage
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// A whole-number option of at least `min`, or the fallback when it's not given; anything else exits
+function integerOption(name: string, fallback: number, min: number): number {
+    const value = getCliOption(name);
+    if (value === undefined) return fallback;
+
+    const parsed = Number(value);
+    if (!value.trim() || !Number.isInteger(parsed) || parsed < min) {
+        console.error(`❌ --${name} must be a whole number of at least ${min}, got "${value}"`);
         process.exit(1);
     }
+    return parsed;
+}
+
+function estimateCost(usage: LLMUsage): number {
+    return (usage.promptTokens * PROMPT_PRICE + usage.completionTokens * COMPLETION_PRICE) / 1_000_000;
 }
 
 // Run the parser
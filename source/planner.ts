@@ -0,0 +1,353 @@
+import fs from 'fs';
+import type { CourseSaveFile, Requirements } from './types';
+import { openCourseRepository } from './repository';
+import { normalizeCourseCode, getCliOption, parseCourseList } from './utilities';
+import { evaluateRequirements, buildCreditCatalog, describeRequirement, requiredChildCount, DEFAULT_COURSE_CREDITS } from './eligibility';
+import type { Transcript } from './eligibility';
+import { buildEquivalenceMap } from './equivalents';
+
+/**
+ * Term Planner:
+ * Schedules a set of target courses, and everything they still need, into terms.
+ * - requirements the transcript already meets are skipped (in-progress courses count
+ *   as completed, since they finish before the first planned term)
+ * - ONE_OF and N_OF groups take their cheapest children: ones already met or already
+ *   in the plan first, then the ones that pull in the fewest other courses
+ * - prerequisites go in an earlier term; corequisites and courses that may be taken
+ *   concurrently go in the same term or earlier
+ * - each term holds at most the credit cap, and courses with known offerings only go
+ *   in the terms they're offered in; courses ending the longest chains are placed first
+ * - permission and free-text requirements can't be planned and are listed as manual
+ *   checks, as are standing, program and credit count requirements not already met
+ * - courses that aren't in the data are never scheduled, only listed as manual checks;
+ *   courses whose parse needs review are planned from their parse plus a manual check
+ *
+ * Usage: bun run plan --targets "CPSC 320,CPSC 313,MATH 303" [--completed "CPSC 110,CPSC 121"]
+ *        [--transcript <file>] [--max-credits 15] [--terms W1,W2] [--offerings <file>] [--db | --db=path]
+ *   --transcript   JSON transcript (completed courses with grades, standing, programs)
+ *   --terms        term labels, repeated in order
+ *   --offerings    JSON object mapping courses to the term labels they're offered in;
+ *                  courses not listed are assumed to be offered every term
+ */
+
+export interface PlannerOptions {
+    targets: string[];
+    transcript: Transcript;
+    maxCreditsPerTerm?: number;
+    terms?: string[]; // labels repeated in order
+    offerings?: Map<string, string[]>; // course -> term labels it's offered in
+    maxTerms?: number; // stop planning after this many terms
+}
+
+export interface PlannedTerm {
+    term: number; // 1-based
+    label: string;
+    courses: string[];
+    credits: number;
+}
+
+export interface ManualCheck {
+    course: string; // the course the requirement belongs to
+    requirement: string;
+}
+
+export interface Plan {
+    terms: PlannedTerm[];
+    completedTargets: string[]; // targets the transcript already covers
+    manualChecks: ManualCheck[];
+    unscheduled: Array<{ course: string; reason: string }>;
+}
+
+interface PlannedCourse {
+    credits: number;
+    before: Set<string>; // courses that must be completed in an earlier term
+    alongside: Set<string>; // courses that may share its term
+}
+
+const DEFAULT_MAX_CREDITS = 15;
+const DEFAULT_TERMS = ['W1', 'W2'];
+const DEFAULT_MAX_TERMS = 16;
+
+// Cost of a requirement that can't be planned, so plannable alternatives are preferred
+const UNPLANNABLE_COST = 100;
+
+/**
+ * Chooses the courses needed for the targets and schedules them term by term
+ */
+export function planCourses(courses: CourseSaveFile[], options: PlannerOptions): Plan {
+    const catalog = new Map(courses.map(courseData => [normalizeCourseCode(courseData.course), courseData]));
+    const evaluationOptions = { credits: buildCreditCatalog(courses), equivalents: buildEquivalenceMap(courses) };
+    const transcript: Transcript = {
+        ...options.transcript,
+        completed: [...options.transcript.completed, ...(options.transcript.inProgress || []).map(course => ({ course }))],
+        inProgress: []
+    };
+
+    const planned = new Map<string, PlannedCourse>();
+    const manualChecks: ManualCheck[] = [];
+    const courseCosts = new Map<string, number>();
+
+    // A course completed without a recorded grade is assumed to meet any minimum grade
+    const isMet = (req: Requirements) => {
+        const status = evaluateRequirements(req, transcript, evaluationOptions).status;
+        return status === 'satisfied' || (req.type === 'course' && status === 'unknown');
+    };
+
+    // Rough number of courses a requirement would add to the plan
+    const cost = (req: Requirements, visiting: Set<string>): number => {
+        if (isMet(req)) return 0;
+
+        switch (req.type) {
+            case 'course':
+                return courseCost(normalizeCourseCode(req.course), visiting);
+            case 'group': {
+                const childCosts = req.children.map(child => cost(child, visiting)).sort((a, b) => a - b);
+                return childCosts.slice(0, requiredChildCount(req)).reduce((sum, childCost) => sum + childCost, 0);
+            }
+            default:
+                return UNPLANNABLE_COST;
+        }
+    };
+
+    const courseCost = (code: string, visiting: Set<string>): number => {
+        if (planned.has(code)) return 0;
+        if (courseCosts.has(code)) return courseCosts.get(code)!;
+        if (visiting.has(code) || !catalog.has(code)) return UNPLANNABLE_COST;
+
+        visiting.add(code);
+        const req = catalog.get(code)?.parsedRequirements;
+        let total = 1;
+        if (req?.prerequisites) total += cost(req.prerequisites, visiting);
+        if (req?.corequisites) total += cost(req.corequisites, visiting);
+        visiting.delete(code);
+
+        courseCosts.set(code, total);
+        return total;
+    };
+
+    // Only courses in the data are scheduled; callers check the catalog first
+    const addCourse = (code: string) => {
+        if (planned.has(code)) return;
+        planned.set(code, {
+            credits: evaluationOptions.credits.get(code) ?? DEFAULT_COURSE_CREDITS,
+            before: new Set(),
+            alongside: new Set()
+        });
+
+        const courseData = catalog.get(code)!;
+        if (courseData.status === 'needs_review') {
+            // Planned from the parse, but the parse itself has to be checked against the calendar
+            manualChecks.push({ course: code, requirement: `the parse needs review: ${(courseData.reviewNotes || []).join('; ') || 'no notes'}` });
+        } else if (courseData.status !== 'parsed') {
+            manualChecks.push({ course: code, requirement: `requirements not parsed (status: ${courseData.status})` });
+            return;
+        }
+
+        const req = courseData.parsedRequirements;
+        if (req?.prerequisites) planRequirement(req.prerequisites, code, false);
+        if (req?.corequisites) planRequirement(req.corequisites, code, true);
+    };
+
+    // Adds whatever `req` still needs to the plan; concurrent requirements may share the owner's term
+    const planRequirement = (req: Requirements, owner: string, concurrent: boolean) => {
+        if (isMet(req)) return;
+
+        switch (req.type) {
+            case 'course': {
+                const code = normalizeCourseCode(req.course);
+                if (code === owner) return; // Courses that list themselves
+                if (!catalog.has(code)) {
+                    manualChecks.push({ course: owner, requirement: `${code} (not in the course data)` });
+                    return;
+                }
+
+                const entry = planned.get(owner)!;
+                const alongside = concurrent || req.canBeTakenConcurrently || req.mustBeTakenConcurrently;
+                (alongside ? entry.alongside : entry.before).add(code);
+                addCourse(code);
+                break;
+            }
+            case 'group': {
+                // Cheapest children first; ties keep the calendar's order
+                const ranked = req.children
+                    .map((child, i) => ({ child, i, cost: cost(child, new Set([owner])) }))
+                    .sort((a, b) => a.cost - b.cost || a.i - b.i);
+                ranked.slice(0, requiredChildCount(req)).forEach(({ child }) => planRequirement(child, owner, concurrent));
+                break;
+            }
+            default:
+                manualChecks.push({ course: owner, requirement: describeRequirement(req) });
+        }
+    };
+
+    const completedTargets: string[] = [];
+    for (const target of options.targets.map(normalizeCourseCode)) {
+        if (isMet({ type: 'course', course: target })) completedTargets.push(target);
+        else if (!catalog.has(target)) manualChecks.push({ course: target, requirement: 'not in the course data' });
+        else addCourse(target);
+    }
+
+    const terms = scheduleTerms(planned, options);
+    const scheduled = new Set(terms.flatMap(term => term.courses));
+    const unscheduled = Array.from(planned.keys())
+        .filter(code => !scheduled.has(code))
+        .sort()
+        .map(code => ({ course: code, reason: unscheduledReason(code, planned, scheduled, options) }));
+
+    return { terms, completedTargets, manualChecks, unscheduled };
+}
+
+function resolveSettings(options: PlannerOptions) {
+    return {
+        labels: options.terms && options.terms.length > 0 ? options.terms : DEFAULT_TERMS,
+        maxCredits: options.maxCreditsPerTerm ?? DEFAULT_MAX_CREDITS,
+        maxTerms: options.maxTerms ?? DEFAULT_MAX_TERMS
+    };
+}
+
+// Places the planned courses into terms, filling each term before moving to the next
+function scheduleTerms(planned: Map<string, PlannedCourse>, options: PlannerOptions): PlannedTerm[] {
+    const { labels, maxCredits, maxTerms } = resolveSettings(options);
+    const done = new Set<string>();
+    const terms: PlannedTerm[] = [];
+    const chains = new Map<string, number>();
+
+    // Courses that need each planned course
+    const dependents = new Map<string, string[]>();
+    planned.forEach((entry, code) => {
+        [...entry.before, ...entry.alongside].forEach(required => {
+            if (!dependents.has(required)) dependents.set(required, []);
+            dependents.get(required)!.push(code);
+        });
+    });
+
+    // How many more terms the courses depending on `code` need after it
+    const chain = (code: string, visiting: Set<string> = new Set()): number => {
+        if (chains.has(code)) return chains.get(code)!;
+        if (visiting.has(code)) return 0;
+
+        visiting.add(code);
+        const length = Math.max(0, ...(dependents.get(code) || []).map(dependent =>
+            (planned.get(dependent)!.before.has(code) ? 1 : 0) + chain(dependent, visiting)
+        ));
+        visiting.delete(code);
+
+        chains.set(code, length);
+        return length;
+    };
+
+    // Stop once every course is placed, or a full rotation of terms places nothing
+    let idleTerms = 0;
+    for (let term = 1; done.size < planned.size && term <= maxTerms && idleTerms < labels.length; term++) {
+        const label = labels[(term - 1) % labels.length]!;
+        const ready = (code: string) => !done.has(code)
+            && (!options.offerings?.has(code) || options.offerings.get(code)!.includes(label))
+            && Array.from(planned.get(code)!.before).every(required => done.has(required));
+
+        const chosen = new Set<string>();
+        let credits = 0;
+        const candidates = Array.from(planned.keys()).filter(ready).sort((a, b) => chain(b) - chain(a) || a.localeCompare(b));
+
+        for (const code of candidates) {
+            if (chosen.has(code)) continue;
+
+            // The course and any concurrent requirements it still needs all go in together
+            const bundle = new Set<string>();
+            const collect = (course: string) => {
+                if (bundle.has(course) || done.has(course) || chosen.has(course)) return;
+                bundle.add(course);
+                planned.get(course)?.alongside.forEach(collect);
+            };
+            collect(code);
+
+            const bundleCredits = Array.from(bundle).reduce((sum, course) => sum + planned.get(course)!.credits, 0);
+            if (!Array.from(bundle).every(ready) || credits + bundleCredits > maxCredits) continue;
+
+            bundle.forEach(course => chosen.add(course));
+            credits += bundleCredits;
+        }
+
+        idleTerms = chosen.size === 0 ? idleTerms + 1 : 0;
+        chosen.forEach(course => done.add(course));
+        terms.push({ term, label, courses: Array.from(chosen).sort(), credits });
+    }
+
+    // Drop the empty terms at the end from a stalled rotation
+    while (terms.length > 0 && terms[terms.length - 1]!.courses.length === 0) terms.pop();
+    return terms;
+}
+
+function unscheduledReason(code: string, planned: Map<string, PlannedCourse>, scheduled: Set<string>, options: PlannerOptions): string {
+    const { labels, maxCredits, maxTerms } = resolveSettings(options);
+    const entry = planned.get(code)!;
+    const offered = options.offerings?.get(code);
+
+    if (offered && !labels.some(label => offered.includes(label))) {
+        return `not offered in ${labels.join(', ')}`;
+    }
+
+    const waiting = [...entry.before, ...entry.alongside].filter(required => !scheduled.has(required));
+    if (waiting.length > 0) {
+        return `needs ${waiting.join(', ')}, which could not be scheduled`;
+    }
+    if (entry.credits > maxCredits) {
+        return `${entry.credits} credits is over the ${maxCredits}-credit cap`;
+    }
+    return `could not be placed within ${maxTerms} terms`;
+}
+
+async function main() {
+    const targets = parseCourseList(getCliOption('targets'));
+    if (targets.length === 0) {
+        console.error('Usage: bun run plan --targets "CPSC 320,CPSC 313" [--completed "CPSC 110,CPSC 121"] [--transcript <file>] [--max-credits 15] [--terms W1,W2] [--offerings <file>] [--db | --db=path]');
+        process.exit(1);
+    }
+
+    const transcriptPath = getCliOption('transcript');
+    const transcript: Transcript = transcriptPath ? JSON.parse(fs.readFileSync(transcriptPath, 'utf-8')) : { completed: [] };
+    transcript.completed = [...(transcript.completed || []), ...parseCourseList(getCliOption('completed')).map(course => ({ course }))];
+
+    const offeringsPath = getCliOption('offerings');
+    const offerings = offeringsPath
+        ? new Map(Object.entries(JSON.parse(fs.readFileSync(offeringsPath, 'utf-8')) as Record<string, string[]>)
+            .map(([course, terms]) => [normalizeCourseCode(course), terms]))
+        : undefined;
+
+    const maxCredits = Number(getCliOption('max-credits') ?? DEFAULT_MAX_CREDITS);
+    if (!Number.isFinite(maxCredits) || maxCredits <= 0) {
+        console.error(`❌ --max-credits must be a positive number`);
+        process.exit(1);
+    }
+
+    const terms = getCliOption('terms')?.split(',').map(term => term.trim()).filter(term => term.length > 0);
+    const courses = openCourseRepository().loadAll();
+    const plan = planCourses(courses, { targets, transcript, maxCreditsPerTerm: maxCredits, terms, offerings });
+
+    console.log(`🗓️  Plan for ${targets.join(', ')} (at most ${maxCredits} credits per term)`);
+    if (plan.completedTargets.length > 0) {
+        console.log(`✅ Already completed: ${plan.completedTargets.join(', ')}`);
+    }
+
+    for (const term of plan.terms) {
+        console.log(`\nTerm ${term.term} (${term.label}) - ${term.credits} credits`);
+        if (term.courses.length === 0) console.log('   (nothing offered that can be taken yet)');
+        term.courses.forEach(course => console.log(`   ${targets.includes(course) ? '🎯' : '  '} ${course}`));
+    }
+
+    if (plan.manualChecks.length > 0) {
+        console.log('\n⚠️  Manual checks:');
+        plan.manualChecks.forEach(check => console.log(`   ${check.course}: ${check.requirement}`));
+    }
+
+    if (plan.unscheduled.length > 0) {
+        console.log('\n❌ Could not schedule:');
+        plan.unscheduled.forEach(entry => console.log(`   ${entry.course}: ${entry.reason}`));
+    }
+}
+
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error:', error);
+        process.exit(1);
+    });
+}
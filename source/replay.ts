@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { CourseSaveFile } from './types';
+import { createCourseRepository } from './repository';
+
+/**
+ * Replay Check:
+ * Runs the parse over the fixture courses in data/fixtures/courses with the replay
+ * provider, then compares each course's status and parse with data/fixtures/expected.json.
+ * Needs no network or API key. The fixture courses are copied to a temp directory
+ * first, so the committed files stay unparsed.
+ *
+ * Fixtures are named by a hash of the prompt, so changing the prompt or types.md
+ * means recording them again with `bun run parse --record --fixtures source/data/fixtures`.
+ *
+ * Usage: bun run replay
+ */
+
+type ExpectedOutcome = Pick<CourseSaveFile, 'status' | 'parsedRequirements'>;
+
+const FIXTURES_DIR = path.join(__dirname, 'data', 'fixtures');
+
+function runReplay(): number {
+    const expected: Record<string, ExpectedOutcome> = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'expected.json'), 'utf-8'));
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+    const coursesDir = path.join(workDir, 'courses');
+
+    try {
+        fs.cpSync(path.join(FIXTURES_DIR, 'courses'), coursesDir, { recursive: true });
+
+        const run = Bun.spawnSync([
+            process.execPath, path.join(__dirname, 'parse.ts'),
+            '--provider', 'replay', '--fixtures', FIXTURES_DIR, '--dir', coursesDir, '--non-interactive', '--fresh'
+        ], { stdout: 'inherit', stderr: 'inherit' });
+
+        if (run.exitCode !== 0) {
+            console.error(`❌ Parse exited with code ${run.exitCode}`);
+            return 1;
+        }
+
+        const repository = createCourseRepository({ dir: coursesDir });
+        let failures = 0;
+
+        console.log('');
+        for (const [course, outcome] of Object.entries(expected)) {
+            const courseData = repository.get(course);
+            const problems: string[] = [];
+
+            if (!courseData) {
+                problems.push('missing from the fixtures');
+            } else {
+                if (courseData.status !== outcome.status) problems.push(`status is ${courseData.status}, expected ${outcome.status}`);
+                if (JSON.stringify(courseData.parsedRequirements) !== JSON.stringify(outcome.parsedRequirements)) {
+                    problems.push(`parse differs:\n   got      ${JSON.stringify(courseData.parsedRequirements)}\n   expected ${JSON.stringify(outcome.parsedRequirements)}`);
+                }
+            }
+
+            if (problems.length === 0) {
+                console.log(`✅ ${course}`);
+            } else {
+                failures++;
+                console.log(`❌ ${course}: ${problems.join('; ')}`);
+            }
+        }
+
+        console.log(`\n${Object.keys(expected).length - failures} of ${Object.keys(expected).length} fixture courses match`);
+        return failures > 0 ? 1 : 0;
+    } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    }
+}
+
+try {
+    process.exit(runReplay());
+} catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import type { CourseSaveFile } from './types';
+import { loadCourseFile, SchemaVersionError } from './migrations';
+import { normalizeCourseCode } from './utilities';
+import { createSqliteRepository, getDatabasePath, openDatabase } from './database';
+
+/**
+ * Course Repository:
+ * The one place that reads and writes the course files in data/courses.
+ * - files are loaded through the schema migrations, so outdated files are
+ *   upgraded in memory (or refused with `upgrade: false`)
+ * - saves go to a temp file that is renamed over the original, so a crash
+ *   mid-write never leaves a half-written course file
+ * - loaded courses are indexed by normalised course code for lookups
+ *
+ * The same interface is implemented over SQLite in database.ts; use
+ * openCourseRepository to pick the backend from the `--db` flag.
+ */
+
+export type CourseStatus = CourseSaveFile['status'];
+
+export interface CourseFilter {
+    status?: CourseStatus | CourseStatus[];
+    department?: string | string[];
+}
+
+export interface ParseAttempt {
+    course: string;
+    attempt: number; // 1 for the first LLM call, higher for repair attempts
+    model: string;
+    prompt: string; // the user message sent on this attempt
+    rawResponse: string;
+    valid: boolean;
+    validationError?: string;
+    timestamp: string; // ISO date string
+}
+
+export interface RepositoryOptions {
+    dir?: string;
+    upgrade?: boolean;
+    onError?: (file: string, error: unknown) => void;
+}
+
+export interface CourseRepository {
+    readonly location: string; // directory or database file, for messages
+    get(course: string): CourseSaveFile | undefined;
+    loadAll(filter?: CourseFilter): CourseSaveFile[];
+    save(courseData: CourseSaveFile): void;
+    recordAttempt(attempt: ParseAttempt): void;
+    outdated(): string[]; // courses that were upgraded in memory and not saved since
+}
+
+export const DEFAULT_COURSES_DIR = path.join(__dirname, 'data', 'courses');
+
+/**
+ * Creates a repository over a directory of course files. Unreadable files are
+ * reported through onError (logged by default) and skipped; a SchemaVersionError
+ * is always thrown so callers can refuse to run on data they would misread.
+ */
+export function createCourseRepository(options: RepositoryOptions = {}): CourseRepository {
+    const dir = options.dir || DEFAULT_COURSES_DIR;
+    const onError = options.onError || ((file, error) => console.error(`Error reading ${file}:`, error));
+    const index = new Map<string, CourseSaveFile>();
+    const outdated = new Set<string>();
+    let loaded = false;
+
+    const loadIndex = () => {
+        if (loaded) return;
+
+        if (!fs.existsSync(dir)) {
+            throw new Error(`Courses directory not found: ${dir}`);
+        }
+
+        for (const file of fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort()) {
+            try {
+                const { courseData, upgraded } = loadCourseFile(path.join(dir, file), { upgrade: options.upgrade });
+                const code = normalizeCourseCode(courseData.course);
+                index.set(code, courseData);
+                if (upgraded) outdated.add(code);
+            } catch (error) {
+                if (error instanceof SchemaVersionError) throw error;
+                onError(file, error);
+            }
+        }
+
+        loaded = true;
+    };
+
+    const pathFor = (course: string) => path.join(dir, `${course.replace(/[^a-zA-Z0-9]/g, '_')}.json`);
+
+    return {
+        location: dir,
+        get(course) {
+            loadIndex();
+            return index.get(normalizeCourseCode(course));
+        },
+        loadAll(filter = {}) {
+            loadIndex();
+            return Array.from(index.values()).filter(courseData => matchesFilter(courseData, filter));
+        },
+        save(courseData) {
+            const filePath = pathFor(courseData.course);
+            const tempPath = `${filePath}.tmp`;
+
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(tempPath, JSON.stringify(courseData, null, 2), 'utf-8');
+            fs.renameSync(tempPath, filePath);
+
+            const code = normalizeCourseCode(courseData.course);
+            if (loaded) index.set(code, courseData);
+            outdated.delete(code);
+        },
+        recordAttempt() {
+            // Attempts are only kept by the SQLite backend
+        },
+        outdated: () => Array.from(outdated)
+    };
+}
+
+/**
+ * Opens the SQLite repository when `--db` or `--db=path` is passed, otherwise the JSON directory
+ */
+export function openCourseRepository(options: RepositoryOptions = {}, args: string[] = process.argv): CourseRepository {
+    const dbPath = getDatabasePath(args);
+    return dbPath ? createSqliteRepository(openDatabase(dbPath), options) : createCourseRepository(options);
+}
+
+function matchesFilter(courseData: CourseSaveFile, filter: CourseFilter): boolean {
+    if (filter.status) {
+        const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+        if (!statuses.includes(courseData.status)) return false;
+    }
+
+    if (filter.department) {
+        const departments = (Array.isArray(filter.department) ? filter.department : [filter.department]).map(d => d.toUpperCase());
+        const department = normalizeCourseCode(courseData.course).split(' ')[0];
+        if (!department || !departments.includes(department)) return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { LLMError } from './llm';
+
+/**
+ * Building blocks for long-running batch jobs such as the parse:
+ * - runPool: runs a worker over items with bounded concurrency
+ * - createRateLimiter: sliding one-minute window over requests and tokens
+ * - withBackoff: retries 429 and 5xx responses with exponential backoff
+ * - createCheckpoint: remembers finished items so an interrupted run can resume
+ * - createProgressReporter: a single live summary line instead of per-item logs
+ */
+
+export interface RateLimiter {
+    acquire(tokens?: number): Promise<void>;
+}
+
+export interface Checkpoint {
+    has(item: string): boolean;
+    markDone(item: string): void;
+    size(): number;
+    clear(): void;
+}
+
+export interface ProgressReporter {
+    complete(outcome: string, cost?: number): void;
+    log(...args: unknown[]): void;
+    finish(): void;
+}
+
+interface CheckpointFile {
+    startedAt: string;
+    completed: string[];
+}
+
+/**
+ * Runs the worker over every item with at most `concurrency` in flight.
+ * Calling `stop` from inside a worker lets in-flight items finish but starts no new ones.
+ */
+export async function runPool<T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, stop: () => void) => Promise<void>
+): Promise<void> {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`concurrency must be a positive integer, got ${concurrency}`);
+    }
+
+    let next = 0;
+    let stopped = false;
+    const stop = () => { stopped = true; };
+
+    const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+        while (!stopped && next < items.length) {
+            const item = items[next++]!;
+            await worker(item, stop);
+        }
+    });
+
+    await Promise.all(lanes);
+}
+
+/**
+ * Creates a limiter allowing at most the given requests and tokens in any one-minute window.
+ * A limit of 0 disables that check.
+ */
+export function createRateLimiter(options: { requestsPerMinute: number; tokensPerMinute: number }): RateLimiter {
+    const windowMs = 60_000;
+    const history: Array<{ time: number; tokens: number }> = [];
+
+    return {
+        async acquire(tokens: number = 0): Promise<void> {
+            while (true) {
+                const now = Date.now();
+                while (history.length > 0 && now - history[0]!.time >= windowMs) {
+                    history.shift();
+                }
+
+                const usedTokens = history.reduce((sum, entry) => sum + entry.tokens, 0);
+                const requestsOk = !options.requestsPerMinute || history.length < options.requestsPerMinute;
+                // A single request larger than the whole budget is let through on an empty window
+                const tokensOk = !options.tokensPerMinute || usedTokens + tokens <= options.tokensPerMinute || history.length === 0;
+
+                if (requestsOk && tokensOk) {
+                    history.push({ time: now, tokens });
+                    return;
+                }
+
+                const waitMs = windowMs - (now - history[0]!.time) + 10;
+                await sleep(waitMs);
+            }
+        }
+    };
+}
+
+/**
+ * Calls fn, retrying with exponential backoff while it fails with a 429 or 5xx LLMError
+ */
+export async function withBackoff<T>(
+    fn: () => Promise<T>,
+    options: { retries: number; baseDelayMs: number; onRetry?: (error: LLMError, delayMs: number) => void }
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (!isRetryable(error) || attempt >= options.retries) {
+                throw error;
+            }
+
+            // Full jitter keeps parallel workers from retrying in lockstep
+            const delayMs = Math.round(options.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2));
+            options.onRetry?.(error, delayMs);
+            await sleep(delayMs);
+        }
+    }
+}
+
+export function isRetryable(error: unknown): error is LLMError {
+    return error instanceof LLMError
+        && error.status !== undefined
+        && (error.status === 429 || error.status >= 500);
+}
+
+/**
+ * Creates a checkpoint stored at checkpointPath. Each completed item is written
+ * through immediately (temp file + rename) so a crash loses at most the items in flight.
+ */
+export function createCheckpoint(checkpointPath: string): Checkpoint {
+    let data: CheckpointFile = { startedAt: new Date().toISOString(), completed: [] };
+
+    if (fs.existsSync(checkpointPath)) {
+        try {
+            data = JSON.parse(fs.readFileSync(checkpointPath, 'utf-8'));
+        } catch (error) {
+            console.error(`Ignoring unreadable checkpoint ${checkpointPath}:`, error);
+        }
+    }
+
+    const completed = new Set(data.completed);
+
+    const save = () => {
+        data.completed = Array.from(completed);
+        fs.mkdirSync(path.dirname(checkpointPath), { recursive: true });
+        const tempPath = `${checkpointPath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+        fs.renameSync(tempPath, checkpointPath);
+    };
+
+    return {
+        has: item => completed.has(item),
+        markDone(item) {
+            completed.add(item);
+            save();
+        },
+        size: () => completed.size,
+        clear() {
+            completed.clear();
+            if (fs.existsSync(checkpointPath)) fs.unlinkSync(checkpointPath);
+        }
+    };
+}
+
+/**
+ * Creates a reporter that keeps one live summary line (done/remaining/ETA/cost) on a TTY,
+ * and prints a summary every `logEvery` items otherwise
+ */
+export function createProgressReporter(total: number, options: { logEvery?: number } = {}): ProgressReporter {
+    const startedAt = Date.now();
+    const counts: Record<string, number> = {};
+    const logEvery = options.logEvery || 100;
+    const live = Boolean(process.stdout.isTTY);
+    let done = 0;
+    let cost = 0;
+
+    const render = () => {
+        const elapsed = Date.now() - startedAt;
+        const remaining = total - done;
+        const eta = done > 0 ? formatDuration((elapsed / done) * remaining) : '?';
+        const outcomes = Object.entries(counts).map(([outcome, count]) => `${outcome} ${count}`).join(', ');
+        return `${done}/${total} done, ${remaining} remaining, ETA ${eta}, cost $${cost.toFixed(4)}${outcomes ? ` (${outcomes})` : ''}`;
+    };
+
+    return {
+        complete(outcome: string, itemCost: number = 0) {
+            done++;
+            cost += itemCost;
+            counts[outcome] = (counts[outcome] || 0) + 1;
+
+            if (live) {
+                process.stdout.write(`\r\x1b[K⏳ ${render()}`);
+            } else if (done % logEvery === 0 || done === total) {
+                console.log(`⏳ ${render()}`);
+            }
+        },
+        log(...args: unknown[]) {
+            // Clear the live line, print above it, then redraw it
+            if (live) process.stdout.write('\r\x1b[K');
+            console.log(...args);
+            if (live && done > 0) process.stdout.write(`⏳ ${render()}`);
+        },
+        finish() {
+            if (live) process.stdout.write('\n');
+            console.log(`Finished in ${formatDuration(Date.now() - startedAt)}: ${render()}`);
+        }
+    };
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) return `${hours}h${minutes.toString().padStart(2, '0')}m`;
+    if (minutes > 0) return `${minutes}m${(seconds % 60).toString().padStart(2, '0')}s`;
+    return `${seconds}s`;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,216 @@
+import type { CourseSaveFile } from './types';
+import { openCourseRepository } from './repository';
+import { extractEdges } from './database';
+import { normalizeCourseCode, getCliOption, parseCourseList, prettyPrintCourseParsedRequirements } from './utilities';
+import { evaluateCourseEligibility, buildCreditCatalog, isStanding } from './eligibility';
+import type { Transcript, EligibilityOptions } from './eligibility';
+import { buildEquivalenceMap } from './equivalents';
+import { computeStats } from './stats';
+import { generateNodesAndLinks } from './export';
+import { createUnlockIndex } from './unlocks';
+
+/**
+ * HTTP API:
+ * Serves the course data as JSON. Everything is loaded once at startup; restart the
+ * server to pick up new parses.
+ *   GET  /courses/:code                           save file and pretty-printed requirements
+ *   GET  /courses/:code/prerequisites?depth=n     prerequisite and corequisite tree, n levels deep (default 1)
+ *   GET  /courses/:code/unlocks?completed=A,B     see unlocks.ts; &grade=80 sets the grade assumed for :code
+ *   POST /eligibility                             { course, transcript } in, eligibility verdict out
+ *   GET  /stats                                   the numbers `bun run stats` prints
+ *   GET  /graph?dept=CPSC                         export nodes and links, optionally only links touching a department
+ * Course codes may be written "CPSC 110", CPSC_110 or cpsc110.
+ *
+ * Usage: bun run serve [--port 3000] [--db | --db=path]
+ */
+
+interface PrerequisiteNode {
+    course: string;
+    title?: string;
+    status?: CourseSaveFile['status']; // missing for courses that aren't in the data
+    kind?: 'prerequisite' | 'corequisite'; // how the parent requires it
+    prerequisites: PrerequisiteNode[];
+    cycle?: boolean; // already an ancestor, so not expanded again
+}
+
+const DEFAULT_PORT = 3000;
+const MAX_TREE_DEPTH = 20;
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Builds the request handler over a set of loaded courses
+ */
+export function createApiHandler(courses: CourseSaveFile[]): (request: Request) => Promise<Response> {
+    const catalog = new Map(courses.map(courseData => [normalizeCourseCode(courseData.course), courseData]));
+    const options: EligibilityOptions = { credits: buildCreditCatalog(courses), equivalents: buildEquivalenceMap(courses) };
+    const unlockIndex = createUnlockIndex(courses);
+    const stats = computeStats(courses);
+    const graph = generateNodesAndLinks(courses);
+
+    const findCourse = (code: string): CourseSaveFile => {
+        const decoded = decodePathSegment(code);
+        const courseData = catalog.get(normalizeCourseCode(decoded));
+        if (!courseData) throw new HttpError(404, `Course not found: ${decoded}`);
+        return courseData;
+    };
+
+    const prerequisiteTree = (code: string, depth: number, ancestors: Set<string>, kind?: PrerequisiteNode['kind']): PrerequisiteNode => {
+        const courseData = catalog.get(code);
+        const node: PrerequisiteNode = { course: code, title: courseData?.title, status: courseData?.status, kind, prerequisites: [] };
+        if (ancestors.has(code)) return { ...node, cycle: true };
+        if (!courseData || depth === 0) return node;
+
+        const required = new Map<string, 'prerequisite' | 'corequisite'>();
+        for (const edge of extractEdges(courseData)) {
+            if (edge.kind !== 'prerequisite' && edge.kind !== 'corequisite') continue;
+            if (!required.has(edge.requires)) required.set(edge.requires, edge.kind);
+        }
+
+        const path = new Set([...ancestors, code]);
+        node.prerequisites = Array.from(required, ([requires, edgeKind]) => prerequisiteTree(normalizeCourseCode(requires), depth - 1, path, edgeKind));
+        return node;
+    };
+
+    const routes: Array<{ method: string; pattern: RegExp; handle: (match: RegExpMatchArray, url: URL, request: Request) => unknown }> = [
+        {
+            method: 'GET',
+            pattern: /^\/courses\/([^/]+)$/,
+            handle: match => {
+                const courseData = findCourse(match[1]!);
+                return {
+                    course: courseData,
+                    pretty: courseData.parsedRequirements ? prettyPrintCourseParsedRequirements(courseData.parsedRequirements) : null
+                };
+            }
+        },
+        {
+            method: 'GET',
+            pattern: /^\/courses\/([^/]+)\/prerequisites$/,
+            handle: (match, url) => {
+                const courseData = findCourse(match[1]!);
+                const depth = Number(url.searchParams.get('depth') ?? 1);
+                if (!Number.isInteger(depth) || depth < 1) throw new HttpError(400, 'depth must be a positive integer');
+                return prerequisiteTree(normalizeCourseCode(courseData.course), Math.min(depth, MAX_TREE_DEPTH), new Set());
+            }
+        },
+        {
+            method: 'GET',
+            pattern: /^\/courses\/([^/]+)\/unlocks$/,
+            handle: (match, url) => {
+                const courseData = findCourse(match[1]!);
+                const grade = url.searchParams.get('grade');
+                if (grade !== null && (!grade.trim() || !Number.isFinite(Number(grade)))) {
+                    throw new HttpError(400, 'grade must be a number');
+                }
+                const transcript: Transcript = {
+                    completed: parseCourseList(url.searchParams.get('completed') ?? undefined).map(course => ({ course }))
+                };
+                return unlockIndex.unlocks(courseData.course, transcript, grade !== null ? Number(grade) : undefined);
+            }
+        },
+        {
+            method: 'POST',
+            pattern: /^\/eligibility$/,
+            handle: async (_match, _url, request) => {
+                const body = await request.json().catch(() => undefined) as { course?: unknown; transcript?: Transcript } | undefined;
+                if (!body || typeof body.course !== 'string' || !Array.isArray(body.transcript?.completed)) {
+                    throw new HttpError(400, 'Expected a JSON body with "course" and "transcript": { "completed": [...] }');
+                }
+                const invalid = transcriptError(body.transcript!);
+                if (invalid) throw new HttpError(400, invalid);
+                return evaluateCourseEligibility(findCourse(body.course), body.transcript!, options);
+            }
+        },
+        {
+            method: 'GET',
+            pattern: /^\/stats$/,
+            handle: () => stats
+        },
+        {
+            method: 'GET',
+            pattern: /^\/graph$/,
+            handle: (_match, url) => {
+                const dept = url.searchParams.get('dept')?.toUpperCase();
+                if (!dept) return graph;
+
+                const inDept = (code: string) => code.split(' ')[0] === dept;
+                const links = graph.links.filter(link => inDept(link.source) || inDept(link.target));
+                const ids = new Set(links.flatMap(link => [link.source, link.target]));
+                return { nodes: graph.nodes.filter(node => ids.has(node.id)), links };
+            }
+        }
+    ];
+
+    return async (request: Request) => {
+        const url = new URL(request.url);
+
+        try {
+            for (const route of routes) {
+                const match = url.pathname.match(route.pattern);
+                if (!match) continue;
+                if (request.method !== route.method) throw new HttpError(405, `${request.method} is not allowed on ${url.pathname}`);
+                return Response.json(await route.handle(match, url, request));
+            }
+            throw new HttpError(404, `No route for ${url.pathname}`);
+        } catch (error) {
+            if (error instanceof HttpError) {
+                return Response.json({ error: error.message }, { status: error.status });
+            }
+            console.error(`❌ ${request.method} ${url.pathname}:`, error);
+            return Response.json({ error: 'Internal server error' }, { status: 500 });
+        }
+    };
+}
+
+function decodePathSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch (error) {
+        if (error instanceof URIError) throw new HttpError(400, `Malformed course code: ${segment}`);
+        throw error;
+    }
+}
+
+// What's wrong with a transcript sent in a request body, if anything
+function transcriptError(transcript: Transcript): string | undefined {
+    const badEntry = transcript.completed.findIndex((entry: unknown) => {
+        if (!entry || typeof entry !== 'object') return true;
+        const { course, grade, credits } = entry as { course?: unknown; grade?: unknown; credits?: unknown };
+        const isNumber = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+        return typeof course !== 'string' || !isNumber(grade) || !isNumber(credits);
+    });
+    if (badEntry !== -1) {
+        return `transcript.completed[${badEntry}] must be { "course": string, "grade"?: number, "credits"?: number }`;
+    }
+    if (transcript.inProgress !== undefined && (!Array.isArray(transcript.inProgress) || transcript.inProgress.some(course => typeof course !== 'string'))) {
+        return 'transcript.inProgress must be a list of course codes';
+    }
+    if (transcript.programs !== undefined && (!Array.isArray(transcript.programs) || transcript.programs.some(program => typeof program !== 'string'))) {
+        return 'transcript.programs must be a list of program names';
+    }
+    if (transcript.standing !== undefined && !isStanding(transcript.standing)) {
+        return 'transcript.standing must be one of 1st, 2nd, 3rd, 4th, graduate';
+    }
+    return undefined;
+}
+
+async function main() {
+    const port = Number(getCliOption('port') ?? process.env.PORT ?? DEFAULT_PORT);
+    const courses = openCourseRepository().loadAll();
+    console.log(`Loaded ${courses.length} courses`);
+
+    const server = Bun.serve({ port, fetch: createApiHandler(courses) });
+    console.log(`🌐 Serving the course API on http://localhost:${server.port}`);
+}
+
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,369 @@
+import type { CourseSaveFile, Requirements } from './types';
+import { openCourseRepository } from './repository';
+import { normalizeCourseCode, getCliOption, parseCourseList } from './utilities';
+import { buildCreditCatalog, describeRequirement, requiredChildCount, DEFAULT_COURSE_CREDITS } from './eligibility';
+import { buildEquivalenceMap } from './equivalents';
+
+/**
+ * Minimum Prerequisite Solver:
+ * Looks for the fewest courses (or credits) to take before a target course can be taken,
+ * expanding the prerequisites of prerequisites all the way down. The search is a beam
+ * search, so the result is the cheapest set it found, not a proven minimum.
+ * - each requirement keeps its BEAM_WIDTH cheapest options rather than only the best,
+ *   so courses shared between branches (one course meeting two groups) are found
+ * - ONE_OF and N_OF groups try every combination of children they need, up to
+ *   MAX_COMBINATIONS; past that only their cheapest children
+ * - completed courses, and courses equivalent to them, cost nothing; courses missing from
+ *   the data (mostly high school ones) are manual checks rather than courses to take
+ * - excluded courses and departments are never chosen; a group left without options
+ *   makes the target unreachable
+ * - permission and free-text children of a group are only chosen when there aren't
+ *   enough other children; they're listed as manual checks, and other non-course
+ *   requirements (standing, programs, credit counts) as conditions
+ * - corequisites are included, and may share a level of the chain with their course
+ * - courses whose parse needs review are solved from their parse plus a manual check;
+ *   a target with no usable parse gives an unknown result rather than an empty one
+ *
+ * Usage: bun run solve <COURSE> [--completed "CPSC 110,CPSC 121"] [--by count|credits]
+ *        [--exclude-departments MATH,STAT] [--exclude-courses "CPSC 121"] [--db | --db=path]
+ */
+
+export type SolverMetric = 'count' | 'credits';
+
+export interface SolverOptions {
+    completed?: string[];
+    metric?: SolverMetric; // what to minimise, default count
+    excludeDepartments?: string[];
+    excludeCourses?: string[];
+}
+
+export interface SolverChoice {
+    course: string; // the course whose requirement the group belongs to
+    group: string; // e.g. "one of MATH 100, MATH 102"
+    chosen: string[];
+}
+
+export interface SolverResult {
+    target: string;
+    reachable: boolean;
+    unknown?: string; // why the target's requirements can't be solved; reachable is false
+    courses: string[]; // courses to take before (or with) the target
+    cost: number; // course count or credits of `courses`
+    chain: string[][]; // courses by level; each level only needs earlier ones (and its corequisites)
+    choices: SolverChoice[];
+    conditions: string[]; // "<course>: <requirement>" for standing, programs and credit counts
+    manualChecks: string[]; // "<course>: <requirement>" for permission and free-text requirements
+}
+
+interface Candidate {
+    courses: string[]; // sorted
+    cost: number;
+    conditions: string[];
+    manualChecks: string[];
+    choices: SolverChoice[];
+    edges: Array<{ course: string; requires: string; concurrent: boolean }>;
+}
+
+// Options kept per requirement; enough to find shared courses without enumerating every path
+const BEAM_WIDTH = 8;
+
+// Above this many combinations, an N_OF group only considers its cheapest children
+const MAX_COMBINATIONS = 200;
+
+const EMPTY: Candidate = { courses: [], cost: 0, conditions: [], manualChecks: [], choices: [], edges: [] };
+
+/**
+ * Finds the cheapest set of courses it can that makes `target` takeable
+ */
+export function solveMinimumPrerequisites(courses: CourseSaveFile[], target: string, options: SolverOptions = {}): SolverResult {
+    const targetCode = normalizeCourseCode(target);
+    const catalog = new Map(courses.map(courseData => [normalizeCourseCode(courseData.course), courseData]));
+    const credits = buildCreditCatalog(courses);
+    const equivalents = buildEquivalenceMap(courses);
+    const completed = new Set((options.completed || []).map(normalizeCourseCode));
+    const excludedDepartments = new Set((options.excludeDepartments || []).map(dept => dept.trim().toUpperCase()));
+    const excludedCourses = new Set((options.excludeCourses || []).map(normalizeCourseCode));
+    const metric = options.metric || 'count';
+
+    const memo = new Map<string, Candidate[]>();
+    let cycleHits = 0;
+
+    const weight = (code: string) => metric === 'credits' ? credits.get(code) ?? DEFAULT_COURSE_CREDITS : 1;
+
+    const merge = (a: Candidate, b: Candidate): Candidate => {
+        const merged = Array.from(new Set([...a.courses, ...b.courses])).sort();
+        return {
+            courses: merged,
+            cost: merged.reduce((sum, code) => sum + weight(code), 0),
+            conditions: Array.from(new Set([...a.conditions, ...b.conditions])),
+            manualChecks: Array.from(new Set([...a.manualChecks, ...b.manualChecks])),
+            // A course reached through two branches brings the same choices and edges twice
+            choices: uniqueBy([...a.choices, ...b.choices], choice => JSON.stringify(choice)),
+            edges: uniqueBy([...a.edges, ...b.edges], edge => `${edge.course}->${edge.requires}`)
+        };
+    };
+
+    // Cheapest first, then the fewest manual checks and conditions
+    const prune = (candidates: Candidate[]): Candidate[] => {
+        const unique = new Map<string, Candidate>();
+        for (const candidate of candidates) {
+            const key = candidate.courses.join(',');
+            const existing = unique.get(key);
+            if (!existing || compare(candidate, existing) < 0) unique.set(key, candidate);
+        }
+        return Array.from(unique.values()).sort(compare).slice(0, BEAM_WIDTH);
+    };
+
+    // Every pairing of one option from each side
+    const combine = (left: Candidate[], right: Candidate[]): Candidate[] =>
+        prune(left.flatMap(a => right.map(b => merge(a, b))));
+
+    const isCompleted = (code: string) => completed.has(code) || Array.from(equivalents.get(code) || []).some(equivalent => completed.has(equivalent));
+
+    const solveCourse = (code: string, visiting: Set<string>): Candidate[] => {
+        if (isCompleted(code)) return [EMPTY];
+        if (excludedCourses.has(code) || excludedDepartments.has(code.split(' ')[0]!)) return [];
+        if (memo.has(code)) return memo.get(code)!;
+        if (visiting.has(code)) {
+            // Already being taken further up, e.g. two corequisites naming each other
+            cycleHits++;
+            return [EMPTY];
+        }
+
+        const hitsBefore = cycleHits;
+        visiting.add(code);
+        const self: Candidate = { ...EMPTY, courses: [code], cost: weight(code) };
+        const result = combine([self], solveRequirementsOf(code, visiting));
+        visiting.delete(code);
+
+        // Options found through a cycle depend on the path taken, so only the rest are reused
+        if (cycleHits === hitsBefore) memo.set(code, result);
+        return result;
+    };
+
+    // Why a course's requirements can't be solved, if they can't
+    const unsolvableReason = (courseData: CourseSaveFile | undefined): string | undefined => {
+        if (!courseData) return 'not in the course data';
+        if (courseData.status !== 'parsed' && courseData.status !== 'needs_review') return `requirements not parsed (status: ${courseData.status})`;
+        return undefined;
+    };
+
+    const solveRequirementsOf = (code: string, visiting: Set<string>): Candidate[] => {
+        const courseData = catalog.get(code);
+        const reason = unsolvableReason(courseData);
+        if (reason) return [{ ...EMPTY, manualChecks: [`${code}: ${reason}`] }];
+
+        const req = courseData!.parsedRequirements;
+        let candidates = [courseData!.status === 'needs_review'
+            ? { ...EMPTY, manualChecks: [`${code}: the parse needs review: ${(courseData!.reviewNotes || []).join('; ') || 'no notes'}`] }
+            : EMPTY];
+        if (req?.prerequisites) candidates = combine(candidates, solveRequirement(req.prerequisites, code, false, visiting));
+        if (req?.corequisites) candidates = combine(candidates, solveRequirement(req.corequisites, code, true, visiting));
+        return candidates;
+    };
+
+    const solveRequirement = (req: Requirements, owner: string, concurrent: boolean, visiting: Set<string>): Candidate[] => {
+        switch (req.type) {
+            case 'course': {
+                const code = normalizeCourseCode(req.course);
+                if (code === owner || isCompleted(code)) return [EMPTY];
+                if (!catalog.has(code)) {
+                    // Usually high school courses such as "Pre-calculus 12"
+                    return [{ ...EMPTY, manualChecks: [`${owner}: ${describeRequirement(req)} (not in the course data)`] }];
+                }
+
+                const edge = { course: owner, requires: code, concurrent: concurrent || !!(req.canBeTakenConcurrently || req.mustBeTakenConcurrently) };
+                return solveCourse(code, visiting).map(candidate => ({ ...candidate, edges: [...candidate.edges, edge] }));
+            }
+
+            case 'group': {
+                const children = req.children.map(child => solveRequirement(child, owner, concurrent, visiting));
+                if (req.logic === 'ALL_OF') {
+                    return children.reduce((candidates, child) => combine(candidates, child), [EMPTY]);
+                }
+
+                const results: Candidate[] = [];
+                // Permission and free-text children only count when there aren't enough others
+                const required = requiredChildCount(req);
+                const isFreeText = (child: Requirements) => child.type === 'permission' || child.type === 'other';
+                const plannable = children.filter((options, i) => options.length > 0 && !isFreeText(req.children[i]!)).length;
+                const available = children.map((options, i) => plannable >= required && isFreeText(req.children[i]!) ? [] : options);
+
+                for (const combination of childCombinations(available, required)) {
+                    const choice: SolverChoice = {
+                        course: owner,
+                        group: describeRequirement(req),
+                        chosen: combination.map(i => describeRequirement(req.children[i]!))
+                    };
+                    const options = combination.reduce((candidates, i) => combine(candidates, children[i]!), [EMPTY]);
+                    results.push(...options.map(candidate => ({ ...candidate, choices: [...candidate.choices, choice] })));
+                }
+                return prune(results);
+            }
+
+            case 'permission':
+            case 'other':
+                return [{ ...EMPTY, manualChecks: [`${owner}: ${describeRequirement(req)}`] }];
+
+            default:
+                return [{ ...EMPTY, conditions: [`${owner}: ${describeRequirement(req)}`] }];
+        }
+    };
+
+    const unknown = unsolvableReason(catalog.get(targetCode));
+    if (unknown) {
+        return { target: targetCode, reachable: false, unknown, courses: [], cost: 0, chain: [], choices: [], conditions: [], manualChecks: [] };
+    }
+
+    // The target itself is never excluded or counted; only what it needs is
+    const best = solveRequirementsOf(targetCode, new Set([targetCode]))[0];
+    if (!best) {
+        return { target: targetCode, reachable: false, courses: [], cost: 0, chain: [], choices: [], conditions: [], manualChecks: [] };
+    }
+
+    return {
+        target: targetCode,
+        reachable: true,
+        courses: best.courses,
+        cost: best.cost,
+        chain: buildChain(best),
+        choices: best.choices,
+        conditions: best.conditions,
+        manualChecks: best.manualChecks
+    };
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+    return Array.from(new Map(items.map(item => [key(item), item])).values());
+}
+
+function compare(a: Candidate, b: Candidate): number {
+    return a.cost - b.cost || a.manualChecks.length - b.manualChecks.length || a.conditions.length - b.conditions.length;
+}
+
+// Index combinations of `count` children that all have options, cheapest children only when there are too many
+function childCombinations(children: Candidate[][], count: number): number[][] {
+    let indices = children.map((options, i) => ({ i, best: options[0] })).filter(child => child.best);
+    if (indices.length < count) return [];
+
+    if (binomial(indices.length, count) > MAX_COMBINATIONS) {
+        indices = [...indices].sort((a, b) => compare(a.best!, b.best!)).slice(0, count * 2).sort((a, b) => a.i - b.i);
+    }
+
+    const combinations: number[][] = [];
+    const pick = (start: number, picked: number[]) => {
+        if (picked.length === count) {
+            combinations.push(picked);
+            return;
+        }
+        for (let j = start; j <= indices.length - (count - picked.length); j++) {
+            pick(j + 1, [...picked, indices[j]!.i]);
+        }
+    };
+    pick(0, []);
+    return combinations;
+}
+
+function binomial(n: number, k: number): number {
+    let result = 1;
+    for (let i = 1; i <= k; i++) result = result * (n - k + i) / i;
+    return result;
+}
+
+// Groups the chosen courses by level: a course sits one level above the prerequisites
+// it needs, and on the same level as courses it may take concurrently
+function buildChain(candidate: Candidate): string[][] {
+    const chosen = new Set(candidate.courses);
+    const levels = new Map<string, number>();
+
+    const level = (code: string, visiting: Set<string>): number => {
+        if (levels.has(code)) return levels.get(code)!;
+        if (visiting.has(code)) return 0;
+
+        visiting.add(code);
+        const required = candidate.edges.filter(edge => edge.course === code && chosen.has(edge.requires));
+        const result = Math.max(0, ...required.map(edge => level(edge.requires, visiting) + (edge.concurrent ? 0 : 1)));
+        visiting.delete(code);
+
+        levels.set(code, result);
+        return result;
+    };
+
+    candidate.courses.forEach(code => level(code, new Set()));
+
+    const chain: string[][] = [];
+    levels.forEach((depth, code) => {
+        while (chain.length <= depth) chain.push([]);
+        chain[depth]!.push(code);
+    });
+    return chain.map(courses => courses.sort());
+}
+
+async function main() {
+    // Options that take a value; everything else that isn't a flag is the course code
+    const valueOptions = ['--completed', '--by', '--exclude-departments', '--exclude-courses'];
+    const args = process.argv.slice(2);
+    const target = args
+        .filter((arg, i) => !arg.startsWith('--') && !valueOptions.includes(args[i - 1] || ''))
+        .join(' ');
+
+    const metric = getCliOption('by') || 'count';
+    if (!target || (metric !== 'count' && metric !== 'credits')) {
+        console.error('Usage: bun run solve <COURSE> [--completed "CPSC 110,CPSC 121"] [--by count|credits] [--exclude-departments MATH,STAT] [--exclude-courses "CPSC 121"] [--db | --db=path]');
+        process.exit(1);
+    }
+
+    const courses = openCourseRepository().loadAll();
+    if (!courses.some(courseData => normalizeCourseCode(courseData.course) === normalizeCourseCode(target))) {
+        console.error(`Course not found: ${normalizeCourseCode(target)}`);
+        process.exit(1);
+    }
+
+    const result = solveMinimumPrerequisites(courses, target, {
+        completed: parseCourseList(getCliOption('completed')),
+        metric: metric,
+        excludeDepartments: (getCliOption('exclude-departments') || '').split(',').filter(dept => dept.trim().length > 0),
+        excludeCourses: parseCourseList(getCliOption('exclude-courses'))
+    });
+
+    if (result.unknown) {
+        console.log(`❔ ${result.target}: ${result.unknown}, so what it needs is unknown`);
+        return;
+    }
+
+    if (!result.reachable) {
+        console.log(`❌ ${result.target} can't be reached without the excluded courses and departments`);
+        return;
+    }
+
+    const unit = metric === 'credits' ? 'credits' : `course${result.cost === 1 ? '' : 's'}`;
+    console.log(`🎯 ${result.target}: ${result.cost} ${unit} to take first`);
+
+    if (result.chain.length > 0) {
+        console.log('\n🔗 Chain:');
+        result.chain.forEach((level, i) => console.log(`   ${i + 1}. ${level.join(', ')}`));
+        console.log(`   ${result.chain.length + 1}. ${result.target}`);
+    }
+
+    if (result.choices.length > 0) {
+        console.log('\n🔀 Chosen alternatives:');
+        result.choices.forEach(choice => console.log(`   ${choice.course}: ${choice.chosen.join(', ')} from ${choice.group}`));
+    }
+
+    if (result.conditions.length > 0) {
+        console.log('\n📋 Also required:');
+        result.conditions.forEach(condition => console.log(`   ${condition}`));
+    }
+
+    if (result.manualChecks.length > 0) {
+        console.log('\n⚠️  Manual checks:');
+        result.manualChecks.forEach(check => console.log(`   ${check}`));
+    }
+}
+
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error:', error);
+        process.exit(1);
+    });
+}
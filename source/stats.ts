@@ -1,13 +1,20 @@
-import fs from 'fs';
-import path from 'path';
 import type { CourseSaveFile, Requirements } from './types';
+import { SCHEMA_VERSION } from './types';
+import { createCourseRepository } from './repository';
+import { getDatabasePath, openDatabase } from './database';
 
-interface Stats {
+// Refuse outdated course files instead of upgrading them in memory
+const NO_UPGRADE = process.argv.includes('--no-upgrade');
+
+export interface Stats {
     total: number;
     parsed: number;
     unparsed: number;
     blacklisted: number;
     error: number;
+    needsReview: number;
+    removed: number; // no longer listed upstream
+    outdated: number; // files saved with an older schema version, upgraded in memory
     
     // Course distribution
     departmentCounts: Record<string, number>;
@@ -26,6 +33,12 @@ interface Stats {
     maxRequirementDepth: number;
     averageRequirementDepth: number;
     
+    // Repair analysis
+    repairAttempted: number;
+    repairSucceeded: number;
+    totalLLMAttempts: number;
+    coursesWithLLMAttempts: number;
+
     // Error analysis
     errorTypes: Record<string, number>;
     blacklistReasons: Record<string, number>;
@@ -37,26 +50,269 @@ interface Stats {
         unparsed: number;
         blacklisted: number;
         error: number;
+        needsReview: number;
+        removed: number;
     }>;
 }
 
 async function generateStats(): Promise<Stats> {
-    const coursesDir = path.join(__dirname, 'data', 'courses');
-    
-    if (!fs.existsSync(coursesDir)) {
-        console.error(`Courses directory not found: ${coursesDir}`);
+    const repository = createCourseRepository({ upgrade: !NO_UPGRADE });
+
+    let courses: CourseSaveFile[];
+    try {
+        courses = repository.loadAll();
+    } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : error}`);
         process.exit(1);
     }
 
-    const files = fs.readdirSync(coursesDir).filter(file => file.endsWith('.json'));
-    console.log(`Analyzing ${files.length} course files...\n`);
+    console.log(`Analyzing ${courses.length} course files...\n`);
+
+    const stats = computeStats(courses);
+    stats.outdated = repository.outdated().length;
+    return stats;
+}
+
+/**
+ * Computes the statistics of a set of already loaded courses
+ */
+export function computeStats(courses: CourseSaveFile[]): Stats {
+    const stats = createEmptyStats();
+    let totalDepth = 0;
+    let coursesWithRequirements = 0;
+
+    for (const courseData of courses) {
+        stats.total++;
+
+        // Extract department from course code
+        const department = courseData.course.split(' ')[0] || 'UNKNOWN';
+        stats.departmentCounts[department] = (stats.departmentCounts[department] || 0) + 1;
+
+        // Initialize department stats if needed
+        if (!stats.departmentStats[department]) {
+            stats.departmentStats[department] = {
+                total: 0,
+                parsed: 0,
+                unparsed: 0,
+                blacklisted: 0,
+                error: 0,
+                needsReview: 0,
+                removed: 0
+            };
+        }
+        stats.departmentStats[department].total++;
+
+        // Status counts
+        switch (courseData.status) {
+            case 'parsed':
+                stats.parsed++;
+                stats.departmentStats[department].parsed++;
+                break;
+            case 'unparsed':
+                stats.unparsed++;
+                stats.departmentStats[department].unparsed++;
+                break;
+            case 'blacklisted':
+                stats.blacklisted++;
+                stats.departmentStats[department].blacklisted++;
+                if (courseData.blacklistReason) {
+                    stats.blacklistReasons[courseData.blacklistReason] = 
+                        (stats.blacklistReasons[courseData.blacklistReason] || 0) + 1;
+                }
+                break;
+            case 'error':
+                stats.error++;
+                stats.departmentStats[department].error++;
+                if (courseData.errorMessage) {
+                    const errorType = extractErrorType(courseData.errorMessage);
+                    stats.errorTypes[errorType] = (stats.errorTypes[errorType] || 0) + 1;
+                }
+                break;
+            case 'needs_review':
+                stats.needsReview++;
+                stats.departmentStats[department].needsReview++;
+                break;
+            case 'removed':
+                stats.removed++;
+                stats.departmentStats[department].removed++;
+                break;
+        }
+
+        // Repair loop outcomes
+        if (courseData.attempts) {
+            stats.totalLLMAttempts += courseData.attempts;
+            stats.coursesWithLLMAttempts++;
+        }
+        if (courseData.repairOutcome === 'repaired' || courseData.repairOutcome === 'failed') {
+            stats.repairAttempted++;
+            if (courseData.repairOutcome === 'repaired') stats.repairSucceeded++;
+        }
+
+        // Analyze parsed requirements
+        if (courseData.status === 'parsed' && courseData.parsedRequirements) {
+            const req = courseData.parsedRequirements;
+            
+            if (req.prerequisites) {
+                stats.coursesWithPrerequisites++;
+                const depth = getRequirementDepth(req.prerequisites);
+                totalDepth += depth;
+                coursesWithRequirements++;
+                stats.maxRequirementDepth = Math.max(stats.maxRequirementDepth, depth);
+                analyzeRequirementTypes(req.prerequisites, stats.requirementTypes);
+            }
+            
+            if (req.corequisites) {
+                stats.coursesWithCorequisites++;
+                const depth = getRequirementDepth(req.corequisites);
+                totalDepth += depth;
+                coursesWithRequirements++;
+                stats.maxRequirementDepth = Math.max(stats.maxRequirementDepth, depth);
+                analyzeRequirementTypes(req.corequisites, stats.requirementTypes);
+            }
+            
+            if (req.recommendedPrerequisites) {
+                stats.coursesWithRecommendedPrereq++;
+                analyzeRequirementTypes(req.recommendedPrerequisites, stats.requirementTypes);
+            }
+            
+            if (req.recommendedCorequisites) {
+                stats.coursesWithRecommendedCoreq++;
+                analyzeRequirementTypes(req.recommendedCorequisites, stats.requirementTypes);
+            }
+            
+            if (!req.prerequisites && !req.corequisites && 
+                !req.recommendedPrerequisites && !req.recommendedCorequisites) {
+                stats.coursesWithNoRequirements++;
+            }
+        }
+
+    }
+
+    stats.averageRequirementDepth = coursesWithRequirements > 0 ? totalDepth / coursesWithRequirements : 0;
+
+    return stats;
+}
+
+// Same statistics as generateStats, computed with SQL over a course database
+function generateStatsFromDatabase(dbPath: string): Stats {
+    const db = openDatabase(dbPath);
+
+    const outdated = db.query('SELECT COUNT(*) AS count FROM courses WHERE schema_version != ?').get(SCHEMA_VERSION) as { count: number };
+    if (outdated.count > 0) {
+        console.error(`❌ ${outdated.count} courses in ${dbPath} use an older schema version; run \`bun run migrate\` and \`bun run db import\``);
+        process.exit(1);
+    }
+
+    const stats = createEmptyStats();
+
+    // Status counts, overall and by department
+    const statusRows = db.query('SELECT department, status, COUNT(*) AS count FROM courses GROUP BY department, status').all() as Array<{ department: string; status: string; count: number }>;
+    console.log(`Analyzing ${statusRows.reduce((sum, row) => sum + row.count, 0)} courses in ${dbPath}...\n`);
+
+    for (const { department, status, count } of statusRows) {
+        stats.total += count;
+        stats.departmentCounts[department] = (stats.departmentCounts[department] || 0) + count;
+        stats.departmentStats[department] ??= { total: 0, parsed: 0, unparsed: 0, blacklisted: 0, error: 0, needsReview: 0, removed: 0 };
+        stats.departmentStats[department].total += count;
+
+        const key = status === 'needs_review' ? 'needsReview' : status;
+        if (key === 'parsed' || key === 'unparsed' || key === 'blacklisted' || key === 'error' || key === 'needsReview' || key === 'removed') {
+            stats[key] += count;
+            stats.departmentStats[department][key] += count;
+        }
+    }
+
+    // Which requirement fields parsed courses have (a JSON null counts as absent)
+    const presence = db.query(`
+        SELECT
+            SUM(prerequisites) AS prerequisites,
+            SUM(corequisites) AS corequisites,
+            SUM(recommendedPrerequisites) AS recommendedPrerequisites,
+            SUM(recommendedCorequisites) AS recommendedCorequisites,
+            SUM(prerequisites + corequisites + recommendedPrerequisites + recommendedCorequisites = 0) AS none
+        FROM (
+            SELECT
+                json_type(parsed_requirements, '$.prerequisites') = 'object' AS prerequisites,
+                json_type(parsed_requirements, '$.corequisites') = 'object' AS corequisites,
+                json_type(parsed_requirements, '$.recommendedPrerequisites') = 'object' AS recommendedPrerequisites,
+                json_type(parsed_requirements, '$.recommendedCorequisites') = 'object' AS recommendedCorequisites
+            FROM courses WHERE status = 'parsed' AND parsed_requirements IS NOT NULL
+        )
+    `).get() as Record<string, number | null>;
+
+    stats.coursesWithPrerequisites = presence.prerequisites || 0;
+    stats.coursesWithCorequisites = presence.corequisites || 0;
+    stats.coursesWithRecommendedPrereq = presence.recommendedPrerequisites || 0;
+    stats.coursesWithRecommendedCoreq = presence.recommendedCorequisites || 0;
+    stats.coursesWithNoRequirements = presence.none || 0;
+
+    // Every requirement node is an object below one of the four requirement fields
+    const typeRows = db.query(`
+        SELECT json_extract(node.value, '$.type') AS type, COUNT(*) AS count
+        FROM courses, json_each(json_array('$.prerequisites', '$.corequisites', '$.recommendedPrerequisites', '$.recommendedCorequisites')) AS root,
+            json_tree(courses.parsed_requirements, root.value) AS node
+        WHERE courses.status = 'parsed' AND node.type = 'object'
+        GROUP BY 1
+    `).all() as Array<{ type: string; count: number }>;
+    typeRows.forEach(({ type, count }) => { stats.requirementTypes[type] = count; });
+
+    // Depth of a tree is one more than the deepest nesting of ".children[" in its node paths
+    const depth = db.query(`
+        SELECT MAX(depth) AS max, AVG(depth) AS average FROM (
+            SELECT MAX((length(node.fullkey) - length(replace(node.fullkey, '.children[', ''))) / 10) + 1 AS depth
+            FROM courses, json_each(json_array('$.prerequisites', '$.corequisites')) AS root,
+                json_tree(courses.parsed_requirements, root.value) AS node
+            WHERE courses.status = 'parsed' AND node.type = 'object'
+            GROUP BY courses.course, root.value
+        )
+    `).get() as { max: number | null; average: number | null };
+    stats.maxRequirementDepth = depth.max || 0;
+    stats.averageRequirementDepth = depth.average || 0;
+
+    // Repair loop outcomes
+    const repairs = db.query(`
+        SELECT
+            SUM(repair_outcome IN ('repaired', 'failed')) AS attempted,
+            SUM(repair_outcome = 'repaired') AS succeeded,
+            SUM(CASE WHEN attempts > 0 THEN attempts ELSE 0 END) AS totalAttempts,
+            SUM(attempts > 0) AS coursesWithAttempts
+        FROM courses
+    `).get() as Record<string, number | null>;
+    stats.repairAttempted = repairs.attempted || 0;
+    stats.repairSucceeded = repairs.succeeded || 0;
+    stats.totalLLMAttempts = repairs.totalAttempts || 0;
+    stats.coursesWithLLMAttempts = repairs.coursesWithAttempts || 0;
+
+    // Error and blacklist reasons
+    const errorRows = db.query(`
+        SELECT json_extract(data, '$.errorMessage') AS message, COUNT(*) AS count
+        FROM courses WHERE status = 'error' AND message IS NOT NULL GROUP BY message
+    `).all() as Array<{ message: string; count: number }>;
+    errorRows.forEach(({ message, count }) => {
+        const errorType = extractErrorType(message);
+        stats.errorTypes[errorType] = (stats.errorTypes[errorType] || 0) + count;
+    });
+
+    const blacklistRows = db.query(`
+        SELECT json_extract(data, '$.blacklistReason') AS reason, COUNT(*) AS count
+        FROM courses WHERE status = 'blacklisted' AND reason IS NOT NULL GROUP BY reason
+    `).all() as Array<{ reason: string; count: number }>;
+    blacklistRows.forEach(({ reason, count }) => { stats.blacklistReasons[reason] = count; });
 
-    const stats: Stats = {
+    db.close();
+    return stats;
+}
+
+function createEmptyStats(): Stats {
+    return {
         total: 0,
         parsed: 0,
         unparsed: 0,
         blacklisted: 0,
         error: 0,
+        needsReview: 0,
+        removed: 0,
+        outdated: 0,
         departmentCounts: {},
         coursesWithPrerequisites: 0,
         coursesWithCorequisites: 0,
@@ -66,111 +322,14 @@ async function generateStats(): Promise<Stats> {
         requirementTypes: {},
         maxRequirementDepth: 0,
         averageRequirementDepth: 0,
+        repairAttempted: 0,
+        repairSucceeded: 0,
+        totalLLMAttempts: 0,
+        coursesWithLLMAttempts: 0,
         errorTypes: {},
         blacklistReasons: {},
         departmentStats: {}
     };
-
-    let totalDepth = 0;
-    let coursesWithRequirements = 0;
-
-    for (const file of files) {
-        const filePath = path.join(coursesDir, file);
-        
-        try {
-            const courseData: CourseSaveFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-            stats.total++;
-
-            // Extract department from course code
-            const department = courseData.course.split(' ')[0] || 'UNKNOWN';
-            stats.departmentCounts[department] = (stats.departmentCounts[department] || 0) + 1;
-
-            // Initialize department stats if needed
-            if (!stats.departmentStats[department]) {
-                stats.departmentStats[department] = {
-                    total: 0,
-                    parsed: 0,
-                    unparsed: 0,
-                    blacklisted: 0,
-                    error: 0
-                };
-            }
-            stats.departmentStats[department].total++;
-
-            // Status counts
-            switch (courseData.status) {
-                case 'parsed':
-                    stats.parsed++;
-                    stats.departmentStats[department].parsed++;
-                    break;
-                case 'unparsed':
-                    stats.unparsed++;
-                    stats.departmentStats[department].unparsed++;
-                    break;
-                case 'blacklisted':
-                    stats.blacklisted++;
-                    stats.departmentStats[department].blacklisted++;
-                    if (courseData.blacklistReason) {
-                        stats.blacklistReasons[courseData.blacklistReason] = 
-                            (stats.blacklistReasons[courseData.blacklistReason] || 0) + 1;
-                    }
-                    break;
-                case 'error':
-                    stats.error++;
-                    stats.departmentStats[department].error++;
-                    if (courseData.errorMessage) {
-                        const errorType = extractErrorType(courseData.errorMessage);
-                        stats.errorTypes[errorType] = (stats.errorTypes[errorType] || 0) + 1;
-                    }
-                    break;
-            }
-
-            // Analyze parsed requirements
-            if (courseData.status === 'parsed' && courseData.parsedRequirements) {
-                const req = courseData.parsedRequirements;
-                
-                if (req.prerequisites) {
-                    stats.coursesWithPrerequisites++;
-                    const depth = getRequirementDepth(req.prerequisites);
-                    totalDepth += depth;
-                    coursesWithRequirements++;
-                    stats.maxRequirementDepth = Math.max(stats.maxRequirementDepth, depth);
-                    analyzeRequirementTypes(req.prerequisites, stats.requirementTypes);
-                }
-                
-                if (req.corequisites) {
-                    stats.coursesWithCorequisites++;
-                    const depth = getRequirementDepth(req.corequisites);
-                    totalDepth += depth;
-                    coursesWithRequirements++;
-                    stats.maxRequirementDepth = Math.max(stats.maxRequirementDepth, depth);
-                    analyzeRequirementTypes(req.corequisites, stats.requirementTypes);
-                }
-                
-                if (req.recommendedPrerequisites) {
-                    stats.coursesWithRecommendedPrereq++;
-                    analyzeRequirementTypes(req.recommendedPrerequisites, stats.requirementTypes);
-                }
-                
-                if (req.recommendedCorequisites) {
-                    stats.coursesWithRecommendedCoreq++;
-                    analyzeRequirementTypes(req.recommendedCorequisites, stats.requirementTypes);
-                }
-                
-                if (!req.prerequisites && !req.corequisites && 
-                    !req.recommendedPrerequisites && !req.recommendedCorequisites) {
-                    stats.coursesWithNoRequirements++;
-                }
-            }
-
-        } catch (error) {
-            console.error(`Error reading ${file}:`, error);
-        }
-    }
-
-    stats.averageRequirementDepth = coursesWithRequirements > 0 ? totalDepth / coursesWithRequirements : 0;
-
-    return stats;
 }
 
 function extractErrorType(errorMessage: string): string {
@@ -208,6 +367,13 @@ function printStats(stats: Stats): void {
     console.log(`⏳ Unparsed: ${stats.unparsed} (${(stats.unparsed / stats.total * 100).toFixed(1)}%)`);
     console.log(`🚫 Blacklisted: ${stats.blacklisted} (${(stats.blacklisted / stats.total * 100).toFixed(1)}%)`);
     console.log(`❌ Error: ${stats.error} (${(stats.error / stats.total * 100).toFixed(1)}%)`);
+    console.log(`🔎 Needs review: ${stats.needsReview} (${(stats.needsReview / stats.total * 100).toFixed(1)}%)`);
+    if (stats.removed > 0) {
+        console.log(`🗑️  Removed upstream: ${stats.removed} (${(stats.removed / stats.total * 100).toFixed(1)}%)`);
+    }
+    if (stats.outdated > 0) {
+        console.log(`⚠️  ${stats.outdated} files use an older schema version and were upgraded in memory; run \`bun run migrate\` to save them`);
+    }
 
     // Requirements analysis
     console.log('\n📋 REQUIREMENTS ANALYSIS:');
@@ -222,6 +388,16 @@ function printStats(stats: Stats): void {
     console.log(`Maximum requirement depth: ${stats.maxRequirementDepth}`);
     console.log(`Average requirement depth: ${stats.averageRequirementDepth.toFixed(2)}`);
 
+    // Repair loop
+    if (stats.coursesWithLLMAttempts > 0) {
+        console.log('\n🔧 REPAIR LOOP:');
+        console.log(`Average LLM attempts per course: ${(stats.totalLLMAttempts / stats.coursesWithLLMAttempts).toFixed(2)}`);
+        console.log(`Courses needing repair: ${stats.repairAttempted}`);
+        if (stats.repairAttempted > 0) {
+            console.log(`Repaired successfully: ${stats.repairSucceeded} (${(stats.repairSucceeded / stats.repairAttempted * 100).toFixed(1)}%)`);
+        }
+    }
+
     // Requirement types
     console.log('\n🏗️  REQUIREMENT TYPES:');
     Object.entries(stats.requirementTypes)
@@ -269,14 +445,17 @@ function printStats(stats: Stats): void {
             const parseRate = (deptStats.parsed / deptStats.total * 100).toFixed(1);
             console.log(`${dept.padEnd(8)}: ${deptStats.total.toString().padStart(3)} total, ` +
                        `${deptStats.parsed.toString().padStart(3)} parsed (${parseRate}%), ` +
-                       `${deptStats.blacklisted} blacklisted, ${deptStats.error} errors`);
+                       `${deptStats.blacklisted} blacklisted, ${deptStats.error} errors, ${deptStats.needsReview} to review`);
         });
 }
 
-// Run the stats generation
-generateStats().then(stats => {
-    printStats(stats);
-}).catch(error => {
-    console.error('Error generating stats:', error);
-    process.exit(1);
-});
+// Run the stats generation, with SQL when --db is passed
+if (import.meta.main) {
+    const DB_PATH = getDatabasePath();
+    (DB_PATH ? Promise.resolve(generateStatsFromDatabase(DB_PATH)) : generateStats()).then(stats => {
+        printStats(stats);
+    }).catch(error => {
+        console.error('Error generating stats:', error);
+        process.exit(1);
+    });
+}
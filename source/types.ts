@@ -1,19 +1,44 @@
-export const SCHEMA_VERSION = 'UBCv0.1';
+export const SCHEMA_VERSION = 'UBCv0.3';
 
 export interface CourseSaveFile {
     schemaVersion: string;
     course: string;
 
+    // Catalogue metadata, when the ingestion source provides it
+    title?: string;
+    credits?: number;
+    description?: string;
+    link?: string;
+    department?: string;
+
+    // Extracted from the course description rather than parsed (see equivalents.ts)
+    equivalents?: string[]; // "credit will be granted for only one of" these, interchangeable in requirements
+    exclusions?: string[]; // having credit for any of these rules this course out
+
     originalPrerequisite: string | null;
     originalCorequisite: string | null;
 
-    status: 'parsed' | 'unparsed' | 'blacklisted' | 'error';
+    status: 'parsed' | 'unparsed' | 'blacklisted' | 'error' | 'needs_review' | 'removed'; // removed: no longer listed upstream
+    removedFrom?: Exclude<CourseSaveFile['status'], 'removed'>; // the status before it was removed, restored if it comes back
     parsedRequirements?: CourseParsedRequirements;
     blacklistReason?: string;
     errorMessage?: string;
+    reviewNotes?: string[]; // mismatches between the parse and the original text, set with needs_review
+    attempts?: number; // LLM calls made for the last parse, including repair attempts
+    repairOutcome?: 'not_needed' | 'repaired' | 'failed'; // whether asking the LLM to fix a rejected answer worked
+    history?: ParseHistoryEntry[]; // every parse attempt, oldest first
     lastUpdated: string; // ISO date string
 }
 
+export interface ParseHistoryEntry {
+    timestamp: string; // ISO date string
+    model: string; // 'rules' for the local rule-based parser
+    promptHash?: string; // hash of the conversation sent to the LLM, matches the replay fixture name
+    rawContent?: string; // the LLM's answer
+    outcome: 'parsed' | 'needs_review' | 'invalid' | 'blacklisted';
+    validationError?: string;
+}
+
 export interface CourseParsedRequirements {
     department: string;
     code: string;
@@ -27,7 +52,8 @@ export type Requirements = RequirementGroup | RequirementCourse | RequirementCre
 
 interface RequirementGroup {
     type: 'group';
-    logic: 'ALL_OF' | 'ONE_OF' | 'TWO_OF';
+    logic: 'ALL_OF' | 'ONE_OF' | 'N_OF';
+    count?: number; // children needed for N_OF, e.g. 3 for "Three of ..."
     children: Requirements[];
 }
 
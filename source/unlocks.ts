@@ -0,0 +1,222 @@
+import fs from 'fs';
+import type { CourseSaveFile, Requirements } from './types';
+import { openCourseRepository } from './repository';
+import { extractEdges } from './database';
+import { normalizeCourseCode, getCliOption, parseCourseList } from './utilities';
+import { evaluateCourseEligibility, buildCreditCatalog, describeRequirement } from './eligibility';
+import type { Transcript, EligibilityOptions } from './eligibility';
+import { buildEquivalenceMap } from './equivalents';
+
+/**
+ * Unlocks:
+ * What completing a course opens up, found by walking the parsed requirement trees
+ * of the courses that name it (or a course equivalent to it).
+ * - newlyEligible: courses the transcript couldn't take before and can take after
+ * - newlyPending: courses that go from unsatisfied to unknown, i.e. takeable once a
+ *   manual check (permission, standing not on the transcript, ...) passes; courses
+ *   whose parse needs review are only ever pending, see eligibility.ts
+ * - alternatives: every course where it's one option of a ONE_OF or N_OF group,
+ *   whatever the transcript, since it may be one of several ways in
+ *
+ * Usage: bun run unlocks <COURSE> [--completed "CPSC 110,CPSC 121"] [--transcript <file>] [--grade 80] [--db | --db=path]
+ *        bun run unlocks --suggest [--completed ...] [--transcript <file>] [--limit 10] [--db | --db=path]
+ *   --grade     the grade to assume for COURSE when requirements need a minimum
+ *   --suggest   rank the courses the transcript can take now by how many courses they unlock
+ */
+
+export interface UnlockAlternative {
+    course: string; // the course whose requirement has the group
+    kind: 'prerequisite' | 'corequisite';
+    group: string; // e.g. "one of MATH 200, MATH 217"
+}
+
+export interface UnlockResult {
+    course: string;
+    newlyEligible: string[];
+    newlyPending: string[];
+    alternatives: UnlockAlternative[];
+}
+
+export interface UnlockSuggestion {
+    course: string;
+    unlocks: number; // newly eligible courses
+    pending: number; // newly pending courses
+}
+
+export interface UnlockIndex {
+    unlocks(course: string, transcript: Transcript, grade?: number): UnlockResult;
+    suggest(transcript: Transcript, limit?: number): UnlockSuggestion[];
+}
+
+/**
+ * Indexes which courses name each course in their requirements, so a query only
+ * evaluates the courses that could change
+ */
+export function createUnlockIndex(courses: CourseSaveFile[]): UnlockIndex {
+    const options: EligibilityOptions = { credits: buildCreditCatalog(courses), equivalents: buildEquivalenceMap(courses) };
+    const takeableCourses = courses.filter(courseData => courseData.status === 'parsed' || courseData.status === 'needs_review');
+    const parsedCourses = takeableCourses.filter(courseData => courseData.parsedRequirements);
+    const dependents = new Map<string, CourseSaveFile[]>();
+
+    for (const courseData of parsedCourses) {
+        const named = new Set(extractEdges(courseData)
+            .filter(edge => edge.kind === 'prerequisite' || edge.kind === 'corequisite')
+            .map(edge => normalizeCourseCode(edge.requires)));
+
+        named.forEach(code => {
+            if (!dependents.has(code)) dependents.set(code, []);
+            dependents.get(code)!.push(courseData);
+        });
+    }
+
+    // The course and everything equivalent to it
+    const acceptedCodes = (code: string) => new Set([code, ...(options.equivalents!.get(code) || [])]);
+
+    const candidatesFor = (accepted: Set<string>) => {
+        const found = new Map<string, CourseSaveFile>();
+        accepted.forEach(code => (dependents.get(code) || []).forEach(courseData => found.set(courseData.course, courseData)));
+        return Array.from(found.values());
+    };
+
+    const isTaken = (transcript: Transcript, code: string) =>
+        [...transcript.completed.map(entry => entry.course), ...(transcript.inProgress || [])]
+            .some(course => normalizeCourseCode(course) === code);
+
+    const unlocks = (course: string, transcript: Transcript, grade?: number): UnlockResult => {
+        const code = normalizeCourseCode(course);
+        const accepted = acceptedCodes(code);
+        const after: Transcript = { ...transcript, completed: [...transcript.completed, { course: code, grade }] };
+        const result: UnlockResult = { course: code, newlyEligible: [], newlyPending: [], alternatives: [] };
+
+        for (const courseData of candidatesFor(accepted)) {
+            const req = courseData.parsedRequirements!;
+            const alternatives: UnlockAlternative[] = [];
+            if (req.prerequisites) alternatives.push(...findAlternatives(req.prerequisites, accepted, courseData.course, 'prerequisite'));
+            if (req.corequisites) alternatives.push(...findAlternatives(req.corequisites, accepted, courseData.course, 'corequisite'));
+            result.alternatives.push(...alternatives);
+
+            if (accepted.has(normalizeCourseCode(courseData.course)) || isTaken(transcript, normalizeCourseCode(courseData.course))) continue;
+
+            const before = evaluateCourseEligibility(courseData, transcript, options).status;
+            const now = evaluateCourseEligibility(courseData, after, options).status;
+            if (before !== 'satisfied' && now === 'satisfied') {
+                result.newlyEligible.push(courseData.course);
+            } else if (before === 'unsatisfied' && now === 'unknown') {
+                result.newlyPending.push(courseData.course);
+            }
+        }
+
+        result.newlyEligible.sort();
+        result.newlyPending.sort();
+        result.alternatives.sort((a, b) => a.course.localeCompare(b.course));
+        return result;
+    };
+
+    const suggest = (transcript: Transcript, limit: number = 10): UnlockSuggestion[] => {
+        const suggestions: UnlockSuggestion[] = [];
+
+        // Courses with no requirement text are parsed without a parse, and anyone can take them
+        const isEligible = (courseData: CourseSaveFile) => (courseData.status === 'parsed' && !courseData.parsedRequirements)
+            || evaluateCourseEligibility(courseData, transcript, options).status === 'satisfied';
+
+        for (const courseData of takeableCourses) {
+            const code = normalizeCourseCode(courseData.course);
+            if (isTaken(transcript, code) || !dependents.has(code)) continue;
+            if (!isEligible(courseData)) continue;
+
+            const result = unlocks(code, transcript);
+            if (result.newlyEligible.length > 0 || result.newlyPending.length > 0) {
+                suggestions.push({ course: courseData.course, unlocks: result.newlyEligible.length, pending: result.newlyPending.length });
+            }
+        }
+
+        return suggestions
+            .sort((a, b) => b.unlocks - a.unlocks || b.pending - a.pending || a.course.localeCompare(b.course))
+            .slice(0, limit);
+    };
+
+    return { unlocks, suggest };
+}
+
+// ONE_OF and N_OF groups, at any depth, where one of the accepted codes is a branch or part of one
+function findAlternatives(req: Requirements, accepted: Set<string>, course: string, kind: UnlockAlternative['kind']): UnlockAlternative[] {
+    if (req.type !== 'group') return [];
+
+    const found = req.children.flatMap(child => findAlternatives(child, accepted, course, kind));
+    if (req.logic !== 'ALL_OF' && req.children.some(child => namesCourse(child, accepted))) {
+        found.unshift({ course, kind, group: describeRequirement(req) });
+    }
+    return found;
+}
+
+// Nested ONE_OF and N_OF groups are reported on their own, so only ALL_OF branches are searched
+function namesCourse(req: Requirements, accepted: Set<string>): boolean {
+    if (req.type === 'course') return accepted.has(normalizeCourseCode(req.course));
+    if (req.type === 'group' && req.logic === 'ALL_OF') return req.children.some(child => namesCourse(child, accepted));
+    return false;
+}
+
+async function main() {
+    const valueOptions = ['--completed', '--transcript', '--grade', '--limit'];
+    const args = process.argv.slice(2);
+    const course = args
+        .filter((arg, i) => !arg.startsWith('--') && !valueOptions.includes(args[i - 1] || ''))
+        .join(' ');
+    const suggestMode = args.includes('--suggest');
+
+    if (!course && !suggestMode) {
+        console.error('Usage: bun run unlocks <COURSE> [--completed "CPSC 110,CPSC 121"] [--transcript <file>] [--grade 80] [--db | --db=path]');
+        console.error('       bun run unlocks --suggest [--completed ...] [--transcript <file>] [--limit 10] [--db | --db=path]');
+        process.exit(1);
+    }
+
+    const transcriptPath = getCliOption('transcript');
+    const transcript: Transcript = transcriptPath ? JSON.parse(fs.readFileSync(transcriptPath, 'utf-8')) : { completed: [] };
+    transcript.completed = [...(transcript.completed || []), ...parseCourseList(getCliOption('completed')).map(code => ({ course: code }))];
+
+    const limit = Number(getCliOption('limit') ?? 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+        console.error(`❌ --limit must be a positive integer`);
+        process.exit(1);
+    }
+
+    const index = createUnlockIndex(openCourseRepository().loadAll());
+
+    if (suggestMode) {
+        const suggestions = index.suggest(transcript, limit);
+        if (suggestions.length === 0) {
+            console.log('No course the transcript can take unlocks anything new');
+            return;
+        }
+
+        console.log('🔓 Courses that unlock the most:');
+        suggestions.forEach((suggestion, i) => {
+            const pending = suggestion.pending > 0 ? `, ${suggestion.pending} pending manual checks` : '';
+            console.log(`   ${i + 1}. ${suggestion.course} (unlocks ${suggestion.unlocks}${pending})`);
+        });
+        return;
+    }
+
+    const grade = getCliOption('grade');
+    const result = index.unlocks(course, transcript, grade !== undefined ? Number(grade) : undefined);
+
+    console.log(`🔓 Completing ${result.course} makes ${result.newlyEligible.length} courses eligible`);
+    if (result.newlyEligible.length > 0) console.log(`   ${result.newlyEligible.join(', ')}`);
+
+    if (result.newlyPending.length > 0) {
+        console.log(`\n❔ ${result.newlyPending.length} more once manual checks pass:`);
+        console.log(`   ${result.newlyPending.join(', ')}`);
+    }
+
+    if (result.alternatives.length > 0) {
+        console.log(`\n🔀 One option for ${result.alternatives.length} requirements:`);
+        result.alternatives.forEach(alternative => console.log(`   ${alternative.course} (${alternative.kind}): ${alternative.group}`));
+    }
+}
+
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error:', error);
+        process.exit(1);
+    });
+}
@@ -96,8 +96,8 @@ function validateRequirements(req: any): { isValid: boolean; error?: string } {
 }
 
 function validateRequirementGroup(req: any): { isValid: boolean; error?: string } {
-    if (!req.logic || !['ALL_OF', 'ONE_OF', 'TWO_OF'].includes(req.logic)) {
-        return { isValid: false, error: 'Group must have logic field with value ALL_OF, ONE_OF, or TWO_OF' };
+    if (!req.logic || !['ALL_OF', 'ONE_OF', 'N_OF'].includes(req.logic)) {
+        return { isValid: false, error: 'Group must have logic field with value ALL_OF, ONE_OF, or N_OF' };
     }
 
     if (!Array.isArray(req.children)) {
@@ -108,6 +108,17 @@ function validateRequirementGroup(req: any): { isValid: boolean; error?: string
         return { isValid: false, error: 'Group must have at least one child' };
     }
 
+    if (req.logic === 'N_OF') {
+        if (typeof req.count !== 'number' || !Number.isInteger(req.count) || req.count < 1) {
+            return { isValid: false, error: 'N_OF group must have a positive integer count' };
+        }
+        if (req.count > req.children.length) {
+            return { isValid: false, error: `N_OF group needs ${req.count} children but only has ${req.children.length}` };
+        }
+    } else if (req.count !== undefined) {
+        return { isValid: false, error: 'Only N_OF groups can have a count' };
+    }
+
     // Validate each child
     for (let i = 0; i < req.children.length; i++) {
         const childValidation = validateRequirements(req.children[i]);
@@ -265,7 +276,7 @@ export function prettyPrintRequirements(req: Requirements, indent: number = 0):
     switch (req.type) {
         case 'group':
             const logic = req.logic === 'ALL_OF' ? 'ALL_OF' : 
-                         req.logic === 'ONE_OF' ? 'ONE_OF' : 'TWO_OF';
+                         req.logic === 'ONE_OF' ? 'ONE_OF' : `${req.count}_OF`;
             let result = `${spaces}Group (${logic}):`;
             for (const child of req.children) {
                 result += '\n' + prettyPrintRequirements(child, indent + 1);
@@ -395,3 +406,39 @@ export function prettyPrintCourseParsedRequirements(parsed: CourseParsedRequirem
     
     return result;
 }
+
+
+/**
+ * Normalizes a course code to the "DEPT NNN" form used throughout the save files
+ */
+export function normalizeCourseCode(code: string): string {
+    return code
+        .trim()
+        .toUpperCase()
+        .replace(/^([A-Z]+)_?(\d)/, '$1 $2')
+        .replace(/\s+/g, ' ');
+}
+
+/**
+ * Reads a command line option given as `--name value` or `--name=value`
+ */
+export function getCliOption(name: string, args: string[] = process.argv): string | undefined {
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if (arg === `--${name}`) {
+            const value = args[i + 1];
+            return value !== undefined && !value.startsWith('--') ? value : undefined;
+        }
+        if (arg.startsWith(`--${name}=`)) {
+            return arg.slice(name.length + 3);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Splits a comma separated list of course codes, e.g. "CPSC 110, math100"
+ */
+export function parseCourseList(list: string | undefined): string[] {
+    return (list || '').split(',').map(code => code.trim()).filter(code => code.length > 0).map(normalizeCourseCode);
+}
@@ -0,0 +1,185 @@
+import type { CourseSaveFile, CourseParsedRequirements, Requirements } from './types';
+import { openCourseRepository } from './repository';
+
+/**
+ * Semantic checks of a parse against the original text:
+ * - every course code mentioned in the text appears somewhere in the parse, and vice versa
+ * - every percentage in the text appears as a minGrade (or inside a note), and vice versa
+ * - courses only mentioned in "recommended" sentences are not parsed as required
+ *
+ * Run directly (`bun run verify`) to re-check every parsed course and move the
+ * ones with issues to `needs_review`. Pass `--dry-run` to only report them.
+ *
+ * Usage: bun run verify [--dry-run] [--db | --db=path]
+ */
+
+const COURSE_PATTERN = /\b([A-Z]{2,4}) ?(\d{3}[A-Z]?)\b(?:\s?[-–]\s?(\d{3})\b)?((?:\s*(?:,\s*(?:or|and)\b|,|\bor\b|\band\b|\/)\s*\d{3}[A-Z]?\b)*)/g;
+
+/**
+ * Extracts every "DEPT NNN" course code in a text, expanding shorthand such as
+ * "PSYC 101, 102, and 103" and ranges such as "MUSC 271-295"
+ */
+export function extractCourseCodes(text: string): Set<string> {
+    const codes = new Set<string>();
+
+    for (const match of text.matchAll(COURSE_PATTERN)) {
+        const department = match[1]!;
+        codes.add(`${department} ${match[2]}`);
+
+        if (match[3]) {
+            const start = parseInt(match[2]!, 10);
+            const end = parseInt(match[3], 10);
+            for (let number = start + 1; number <= end && end - start <= 100; number++) {
+                codes.add(`${department} ${number}`);
+            }
+        }
+
+        // Bare numbers following a course belong to the same department
+        for (const number of (match[4] || '').matchAll(/\d{3}[A-Z]?/g)) {
+            codes.add(`${department} ${number[0]}`);
+        }
+    }
+
+    return codes;
+}
+
+/**
+ * Compares a course's parsed requirements against its original text and
+ * returns a description of every mismatch found
+ */
+export function verifyParsedRequirements(courseData: CourseSaveFile, parsed: CourseParsedRequirements): string[] {
+    const issues: string[] = [];
+    const texts = [courseData.originalPrerequisite, courseData.originalCorequisite].filter((text): text is string => !!text);
+    const fullText = texts.join(' ');
+
+    const required = [parsed.prerequisites, parsed.corequisites].filter((req): req is Requirements => !!req);
+    const recommended = [parsed.recommendedPrerequisites, parsed.recommendedCorequisites].filter((req): req is Requirements => !!req);
+    const allRequirements = [...required, ...recommended];
+
+    // Course codes
+    const textCodes = extractCourseCodes(fullText);
+    textCodes.delete(courseData.course);
+    const parsedCodes = new Set(allRequirements.flatMap(req => collectCourses(req)));
+
+    const missing = [...textCodes].filter(code => !parsedCodes.has(code));
+    // Only codes in the "DEPT NNN" form can be compared; "BC Math 12" and the like are skipped
+    const extra = [...parsedCodes].filter(code => /^[A-Z]{2,4} \d{3}[A-Z]?$/.test(code) && !textCodes.has(code) && code !== courseData.course);
+
+    if (missing.length > 0) issues.push(`Courses in text but missing from parse: ${missing.join(', ')}`);
+    if (extra.length > 0) issues.push(`Courses in parse but not in text: ${extra.join(', ')}`);
+
+    // Grade thresholds
+    const textGrades = new Set(Array.from(fullText.matchAll(/(\d{1,3})\s?%/g), match => parseInt(match[1]!, 10)));
+    const parsedGrades = new Set(allRequirements.flatMap(req => collectMinGrades(req)));
+    const notes = allRequirements.flatMap(req => collectNotes(req)).join(' ');
+
+    const missingGrades = [...textGrades].filter(grade => !parsedGrades.has(grade) && !notes.includes(`${grade}%`));
+    const extraGrades = [...parsedGrades].filter(grade => !textGrades.has(grade));
+
+    if (missingGrades.length > 0) issues.push(`Grade thresholds in text but missing from parse: ${missingGrades.map(grade => `${grade}%`).join(', ')}`);
+    if (extraGrades.length > 0) issues.push(`Grade thresholds in parse but not in text: ${extraGrades.map(grade => `${grade}%`).join(', ')}`);
+
+    // Recommended text parsed as required
+    const sentences = texts.flatMap(text => text.split(/(?<=\.)\s+/));
+    const recommendedCodes = new Set<string>();
+    const requiredTextCodes = new Set<string>();
+    for (const sentence of sentences) {
+        const target = /recommend|suggest/i.test(sentence) ? recommendedCodes : requiredTextCodes;
+        extractCourseCodes(sentence).forEach(code => target.add(code));
+    }
+
+    const requiredParsedCodes = new Set(required.flatMap(req => collectCourses(req)));
+    const misplaced = [...recommendedCodes].filter(code => !requiredTextCodes.has(code) && requiredParsedCodes.has(code));
+    if (misplaced.length > 0) issues.push(`Recommended in text but parsed as required: ${misplaced.join(', ')}`);
+
+    return issues;
+}
+
+function collectCourses(req: Requirements): string[] {
+    if (req.type === 'course') return [req.course];
+    if (req.type === 'group') return req.children.flatMap(child => collectCourses(child));
+    return [];
+}
+
+function collectMinGrades(req: Requirements): number[] {
+    if (req.type === 'group') return req.children.flatMap(child => collectMinGrades(child));
+    if ((req.type === 'course' || req.type === 'credit_count' || req.type === 'course_count') && req.minGrade !== undefined) {
+        return [req.minGrade];
+    }
+    return [];
+}
+
+function collectNotes(req: Requirements): string[] {
+    if (req.type === 'group') return req.children.flatMap(child => collectNotes(child));
+    if (req.type === 'other' || req.type === 'permission') return [req.note];
+    if (req.type === 'program') return [req.program];
+    return [];
+}
+
+async function main() {
+    const dryRun = process.argv.includes('--dry-run');
+    const repository = openCourseRepository();
+
+    let courses: CourseSaveFile[];
+    try {
+        courses = repository.loadAll({ status: ['parsed', 'needs_review'] });
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+
+    console.log(`Verifying ${courses.length} parsed courses${dryRun ? ' (dry run)' : ''}...\n`);
+
+    let checked = 0;
+    let flagged = 0;
+    let cleared = 0;
+    const issueCounts: Record<string, number> = {};
+
+    for (const courseData of courses) {
+        if (!courseData.parsedRequirements) continue;
+
+        checked++;
+        const issues = verifyParsedRequirements(courseData, courseData.parsedRequirements);
+
+        if (issues.length > 0) {
+            flagged++;
+            issues.forEach(issue => {
+                const kind = issue.split(':')[0]!;
+                issueCounts[kind] = (issueCounts[kind] || 0) + 1;
+            });
+
+            if (courseData.status === 'needs_review' && JSON.stringify(courseData.reviewNotes) === JSON.stringify(issues)) continue;
+
+            console.log(`🔎 ${courseData.course}: ${issues.join('; ')}`);
+            courseData.status = 'needs_review';
+            courseData.reviewNotes = issues;
+        } else if (courseData.status === 'needs_review') {
+            console.log(`✅ ${courseData.course}: no longer has issues`);
+            cleared++;
+            courseData.status = 'parsed';
+            delete courseData.reviewNotes;
+        } else {
+            continue;
+        }
+
+        if (!dryRun) {
+            courseData.lastUpdated = new Date().toISOString();
+            repository.save(courseData);
+        }
+    }
+
+    console.log(`\nVerification complete:`);
+    console.log(`  Checked: ${checked}`);
+    console.log(`  Needs review: ${flagged}`);
+    console.log(`  Cleared: ${cleared}`);
+    Object.entries(issueCounts)
+        .sort(([, a], [, b]) => b - a)
+        .forEach(([kind, count]) => console.log(`    ${kind}: ${count}`));
+}
+
+if (import.meta.main) {
+    main().catch(error => {
+        console.error('Error verifying courses:', error);
+        process.exit(1);
+    });
+}